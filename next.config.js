@@ -1,7 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['@modelcontextprotocol/server']
+    serverComponentsExternalPackages: ['@modelcontextprotocol/server'],
+    // Uploaded files travel to the server action as base64
+    serverActions: { bodySizeLimit: '15mb' }
   }
 }
 
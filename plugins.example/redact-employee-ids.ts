@@ -0,0 +1,12 @@
+import { defineSanitizer } from '../src/mcp/plugins';
+
+// Rule-based: HR identifiers have fixed formats, so detectors find them without a model call
+export default defineSanitizer({
+  name: 'redact_employee_ids',
+  description: 'Redacts employee IDs, payroll numbers and badge numbers',
+  detectors: [
+    { name: 'employee_id', entityType: 'EMPLOYEE_ID', pattern: /\bEMP-?\d{5,7}\b/g, confidence: 0.95 },
+    { name: 'payroll_number', entityType: 'PAYROLL_NUMBER', pattern: /\bPAY-\d{6,8}\b/g, confidence: 0.95 },
+    { name: 'badge_number', entityType: 'BADGE_NUMBER', pattern: /\bBadge\s+#?\d{4,6}\b/gi, confidence: 0.8 },
+  ],
+});
@@ -0,0 +1,25 @@
+import { SanitizerSpec, defineTool, sanitizeInputSchema, sanitizeOutputSchema, z } from '../src/mcp/plugins';
+
+// Hybrid: matter numbers by rule, privileged content by the model
+const legalPrivilege: SanitizerSpec = {
+  prompt: 'You are a legal privilege reviewer. Identify content protected by attorney-client privilege or the work-product doctrine, such as legal advice, counsel\'s opinions, litigation strategy, settlement positions, and the names of the lawyers and clients involved.',
+  detectors: [
+    { name: 'matter_number', entityType: 'MATTER_NUMBER', pattern: /\b(?:Matter|Case)\s+No\.?\s*[A-Z0-9][A-Z0-9-]{3,}\b/gi, confidence: 0.9 },
+  ],
+};
+
+const PRIVILEGE_MARKERS = /\b(?:privileged (?:&|and) confidential|attorney[- ]client|work product|legal advice)\b/i;
+
+// A custom handler: flags whether the text is marked as privileged, then runs the shared pipeline
+export default defineTool({
+  name: 'redact_legal_privilege',
+  description: 'Redacts privileged legal content (legal advice, litigation strategy, counsel and client names) and matter numbers',
+  inputSchema: sanitizeInputSchema,
+  outputSchema: sanitizeOutputSchema.extend({
+    privilegeMarked: z.boolean().describe('True when the text carries a privilege marking'),
+  }),
+  handler: async (args, context) => ({
+    ...(await context.sanitize(args, legalPrivilege)),
+    privilegeMarked: PRIVILEGE_MARKERS.test(args.text),
+  }),
+});
@@ -0,0 +1,132 @@
+import './env';
+import { promises as fs } from 'fs';
+import { AuditEntry, auditDigest, getAuditLogFile, readAuditLog, verifyAuditLog } from '../lib/audit';
+
+// audit: checks the audit log's hash chain and exports entries for auditors (see README "Audit Log")
+
+const USAGE = `Usage: audit <command> [options]
+
+Commands:
+  verify                 Recompute the hash chain and report any tampering
+  export                 Write entries as JSON Lines (verifies the chain first)
+  digest <file|->        Print the keyed digest of a document, to find its inputHash
+
+Options:
+  -f, --file <path>      Audit log to read (default: AUDIT_LOG_FILE or <data dir>/audit/audit.jsonl)
+      --head <hash>      verify: a previously recorded head hash that must still be in the chain
+      --since <date>     export: entries at or after this ISO date/time
+      --until <date>     export: entries before this ISO date/time
+      --client <id>      export: only this client (API key id)
+      --tool <name>      export: only this tool
+  -o, --out <path>       export: write to a file instead of stdout
+  -h, --help             Show this help
+
+Exit codes: 0 success, 1 chain broken, 2 usage error, 3 other error.`;
+
+const EXIT_TAMPERED = 1;
+const EXIT_USAGE = 2;
+const EXIT_ERROR = 3;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+const VALUE_FLAGS: Record<string, string> = {
+  '-f': 'file', '--file': 'file',
+  '--head': 'head',
+  '--since': 'since',
+  '--until': 'until',
+  '--client': 'client',
+  '--tool': 'tool',
+  '-o': 'out', '--out': 'out',
+};
+
+function parseArgs(argv: string[]): { command?: string; args: string[]; options: Record<string, string> } {
+  const options: Record<string, string> = {};
+  const args: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') options.help = 'true';
+    else if (VALUE_FLAGS[arg]) {
+      if (argv[i + 1] === undefined) throw new UsageError(`${arg} needs a value`);
+      options[VALUE_FLAGS[arg]] = argv[++i];
+    } else if (arg.charAt(0) === '-' && arg !== '-') throw new UsageError(`Unknown option ${arg}`);
+    else args.push(arg);
+  }
+  ['since', 'until'].forEach(name => {
+    if (options[name] && isNaN(Date.parse(options[name]))) throw new UsageError(`--${name} is not a date`);
+  });
+  return { command: args[0], args: args.slice(1), options };
+}
+
+function readStdin(): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks)));
+    process.stdin.on('error', reject);
+  });
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { command, args, options } = parseArgs(argv);
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : EXIT_USAGE;
+  }
+  const file = options.file ?? getAuditLogFile();
+
+  if (command === 'digest') {
+    if (args.length !== 1) throw new UsageError('digest takes one file (or - for stdin)');
+    const data = args[0] === '-' ? await readStdin() : await fs.readFile(args[0]);
+    console.log(await auditDigest(data));
+    return 0;
+  }
+
+  if (command !== 'verify' && command !== 'export') throw new UsageError(`Unknown command '${command}'`);
+
+  const verification = await verifyAuditLog(file, options.head);
+  verification.errors.forEach(error =>
+    console.error(`[Audit] line ${error.line}${error.seq !== undefined ? ` (seq ${error.seq})` : ''}: ${error.reason}`)
+  );
+  console.error(
+    `[Audit] ${file}: ${verification.entries} entries, chain ${verification.valid ? 'intact' : 'BROKEN'}, head ${verification.head}`
+  );
+
+  if (command === 'export') {
+    const since = options.since ? Date.parse(options.since) : -Infinity;
+    const until = options.until ? Date.parse(options.until) : Infinity;
+    const lines = (await readAuditLog(file)).filter(line => {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        return false;
+      }
+      const time = Date.parse(entry.timestamp);
+      return time >= since && time < until
+        && (!options.client || entry.client === options.client)
+        && (!options.tool || entry.tool === options.tool);
+    });
+    const output = lines.map(line => `${line}\n`).join('');
+    if (options.out) {
+      await fs.writeFile(options.out, output, { mode: 0o600 });
+      console.error(`[Audit] Exported ${lines.length} entries to ${options.out}`);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  return verification.valid ? 0 : EXIT_TAMPERED;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `[Audit] ${error.message}`);
+    process.exit(error instanceof UsageError ? EXIT_USAGE : EXIT_ERROR);
+  });
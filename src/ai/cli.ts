@@ -0,0 +1,280 @@
+import './env';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { McpLikeClient, StdioClientTransport } from '../mcp/client';
+import { sanitizeTextWithMCP } from './flows/sanitize-text-with-mcp';
+import { detectFormat, sanitizedFilename } from '../lib/files/ingest';
+import { z } from 'zod';
+import { ModelProvider, modelProviderSchema } from '../lib/providers';
+import { Locale, localeSchema } from '../lib/locales';
+import { RedactionMode, redactionModeSchema } from '../mcp/types';
+
+// sanitize: command-line front end for the MCP sanitization flow (see README "Command Line")
+
+const USAGE = `Usage: sanitize [options] [file|glob ...]
+
+Reads stdin when no files are given (or for "-").
+
+Options:
+  -t, --tool <names>       Run these tools in order, comma-separated (default: general_sanitize)
+  -r, --request <text>     Let the model plan the tools for a free-form request
+  -p, --policy <name>      Redaction policy
+      --provider <id>      Model provider (openai, gemini, anthropic, local, mock)
+  -m, --mode <mode>        redact (default) or pseudonymize
+      --session <id>       Vault session to reuse in pseudonymize mode
+  -l, --locale <code>      Language of the inputs: en, de, fr, es, ja or auto (default)
+  -o, --out-dir <dir>      Write <name>.sanitized.<ext> files instead of printing to stdout
+      --json               Print one JSON result per input instead of the sanitized text
+      --fail-on-findings   Exit with 1 when anything was redacted (for pre-commit hooks)
+      --server <url>       Use a running MCP server instead of starting one over stdio
+                           (sends MCP_API_KEY when set)
+  -h, --help               Show this help
+
+Exit codes: 0 success, 1 verification failed (or findings with --fail-on-findings),
+2 usage error, 3 sanitization error.`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_ERROR = 3;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+interface CliOptions {
+  inputs: string[];
+  tool?: string;
+  request?: string;
+  policy?: string;
+  provider?: ModelProvider;
+  mode?: RedactionMode;
+  session?: string;
+  locale?: Locale | 'auto';
+  outDir?: string;
+  json: boolean;
+  failOnFindings: boolean;
+  server?: string;
+  help: boolean;
+}
+
+// Options that take a value; the raw strings are validated once all arguments are read
+type ValueOption = Exclude<keyof CliOptions, 'inputs' | 'json' | 'failOnFindings' | 'help'>;
+
+const VALUE_FLAGS: Record<string, ValueOption> = {
+  '-t': 'tool', '--tool': 'tool',
+  '-r': 'request', '--request': 'request',
+  '-p': 'policy', '--policy': 'policy',
+  '--provider': 'provider',
+  '-m': 'mode', '--mode': 'mode',
+  '--session': 'session',
+  '-l': 'locale', '--locale': 'locale',
+  '-o': 'outDir', '--out-dir': 'outDir',
+  '--server': 'server',
+};
+
+function parseValue<T>(schema: z.ZodType<T>, name: string, value: string | undefined): T | undefined {
+  if (value === undefined) return undefined;
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) throw new UsageError(`Unknown ${name} '${value}'`);
+  return parsed.data;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], json: false, failOnFindings: false, help: false };
+  const values: Partial<Record<ValueOption, string>> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].indexOf('--') === 0 && argv[i].indexOf('=') !== -1
+      ? [argv[i].slice(0, argv[i].indexOf('=')), argv[i].slice(argv[i].indexOf('=') + 1)]
+      : [argv[i], undefined];
+
+    if (flag === '-h' || flag === '--help') options.help = true;
+    else if (flag === '--json') options.json = true;
+    else if (flag === '--fail-on-findings') options.failOnFindings = true;
+    else if (VALUE_FLAGS[flag]) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new UsageError(`${flag} needs a value`);
+      values[VALUE_FLAGS[flag]] = value;
+    } else if (flag.charAt(0) === '-' && flag !== '-') {
+      throw new UsageError(`Unknown option ${flag}`);
+    } else {
+      options.inputs.push(flag);
+    }
+  }
+
+  if (values.tool && values.request) throw new UsageError('Use either --tool or --request, not both');
+  return {
+    ...options,
+    tool: values.tool,
+    request: values.request,
+    policy: values.policy,
+    provider: parseValue(modelProviderSchema, 'provider', values.provider),
+    mode: parseValue(redactionModeSchema, 'mode', values.mode),
+    session: values.session,
+    locale: parseValue(localeSchema.or(z.literal('auto')), 'locale', values.locale),
+    outDir: values.outDir,
+    server: values.server,
+  };
+}
+
+// Minimal globbing (*, ?, **) so patterns work the same when the shell does not expand them
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+    if (char === '*' && pattern.charAt(i + 1) === '*') {
+      source += pattern.charAt(i + 2) === '/' ? '(?:.*/)?' : '.*';
+      i += pattern.charAt(i + 2) === '/' ? 2 : 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name === 'node_modules' || entry.name === '.git') continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(full)));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files;
+}
+
+// An input file and where its output goes under --out-dir: the path below the glob's base
+// directory, so tickets/a/x.txt and tickets/b/x.txt from 'tickets/**/*.txt' stay apart
+interface Input {
+  file: string;
+  output: string;
+}
+
+async function expandInputs(patterns: string[]): Promise<Input[]> {
+  const files: Input[] = [];
+  for (const pattern of patterns) {
+    if (pattern === '-' || !/[*?]/.test(pattern)) {
+      files.push({ file: pattern, output: pattern === '-' ? 'stdin.txt' : path.basename(pattern) });
+      continue;
+    }
+    // Walk from the longest directory prefix without wildcards
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => /[*?]/.test(segment));
+    const base = segments.slice(0, firstGlob).join('/') || '.';
+    const matcher = globToRegExp(normalized.replace(/^\.\//, ''));
+    const matches = (await walk(base))
+      .map(file => file.split(path.sep).join('/'))
+      .filter(file => matcher.test(file.replace(/^\.\//, '')))
+      .sort();
+    if (matches.length === 0) throw new UsageError(`No files match ${pattern}`);
+    files.push(...matches.map(file => ({ file, output: path.posix.relative(base, file) })));
+  }
+  return files;
+}
+
+// Output paths under --out-dir; two inputs writing the same file is a usage error, not a silent overwrite
+function outputPaths(inputs: Input[], outDir: string): string[] {
+  const targets = inputs.map(input =>
+    path.join(outDir, path.dirname(input.output), sanitizedFilename(path.basename(input.output)))
+  );
+  targets.forEach((target, i) => {
+    const first = targets.indexOf(target);
+    if (first !== i) {
+      throw new UsageError(`${inputs[first].file} and ${inputs[i].file} would both be written to ${target}`);
+    }
+  });
+  return targets;
+}
+
+function readStdin(): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks)));
+    process.stdin.on('error', reject);
+  });
+}
+
+function createClient(server?: string): McpLikeClient {
+  if (server) return new McpLikeClient(server, { apiKey: process.env.MCP_API_KEY });
+  // Runs the bundled server in a child process with the same TypeScript loader as this one
+  return new McpLikeClient(new StdioClientTransport(process.execPath, [...process.execArgv, path.join(__dirname, 'stdio.ts')]));
+}
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  // stdout carries the sanitized output; logs go to stderr
+  const log = console.log;
+  console.log = console.error;
+  if (options.help) {
+    log(USAGE);
+    return 0;
+  }
+
+  const inputs = await expandInputs(options.inputs.length ? options.inputs : ['-']);
+  const targets = options.outDir ? outputPaths(inputs, options.outDir) : [];
+  const client = createClient(options.server ?? process.env.MCP_SERVER_URL);
+  await client.connect();
+
+  let exitCode = 0;
+  try {
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i].file;
+      const name = input === '-' ? 'stdin' : input;
+      const data = input === '-' ? await readStdin() : await fs.readFile(input);
+      // Documents, CSV and JSON keep their format via sanitize_file; everything else is plain text
+      const asFile = input !== '-' && detectFormat(input, data).format !== 'txt';
+
+      let result;
+      try {
+        result = await sanitizeTextWithMCP({
+          text: asFile ? '' : data.toString('utf8'),
+          file: asFile ? { base64: data.toString('base64'), filename: path.basename(input) } : undefined,
+          tools: options.request ? undefined : (options.tool ?? 'general_sanitize').split(',').map(tool => tool.trim()).filter(Boolean),
+          sanitizationRequest: options.request,
+          modelProvider: options.provider,
+          mode: options.mode,
+          sessionId: options.session,
+          policy: options.policy,
+          locale: options.locale,
+        }, undefined, client);
+      } catch (error: any) {
+        console.error(`[CLI] ${name}: ${error.message}`);
+        exitCode = Math.max(exitCode, EXIT_ERROR);
+        continue;
+      }
+
+      const output = result.file ? Buffer.from(result.file.base64, 'base64') : Buffer.from(result.sanitizedText, 'utf8');
+      if (options.outDir) {
+        await fs.mkdir(path.dirname(targets[i]), { recursive: true });
+        await fs.writeFile(targets[i], output);
+      }
+      if (options.json) {
+        process.stdout.write(`${JSON.stringify({ input: name, ...result })}\n`);
+      } else if (!options.outDir) {
+        if (inputs.length > 1) process.stdout.write(`==> ${name} <==\n`);
+        process.stdout.write(output);
+      }
+
+      const verification = result.verification;
+      console.error(`[CLI] ${name}: ${result.findings.length} findings via ${result.toolsUsed.join(' -> ')}${result.routing.source === 'caller' ? '' : ` (routed by ${result.routing.source}, confidence ${result.routing.confidence})`}${verification ? `, verification ${verification.passed ? 'passed' : 'FAILED'}` : ''}`);
+      if (verification && !verification.passed) exitCode = Math.max(exitCode, EXIT_FAILED);
+      if (options.failOnFindings && result.findings.length > 0) exitCode = Math.max(exitCode, EXIT_FAILED);
+    }
+  } finally {
+    await client.close();
+  }
+  return exitCode;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `[CLI] ${error.message}`);
+    process.exit(error instanceof UsageError ? EXIT_USAGE : EXIT_ERROR);
+  });
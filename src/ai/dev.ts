@@ -1,3 +1,16 @@
 import 'dotenv/config';
-import '../mcp/server'; // starts the HTTP server
+import { server } from '../mcp/server';
+import { startHttpServer } from '../mcp/http';
+import { createServerRunner } from '../mcp/batch';
+import { JobQueue } from '../lib/jobs';
+import { loadPlugins } from '../mcp/plugins';
+
+// Plugin tools are loaded before the server accepts requests (and reloaded on change in development)
+loadPlugins(server);
+
+const jobs = new JobQueue(createServerRunner(server));
+startHttpServer(server, Number(process.env.MCP_PORT ?? 9003), jobs);
 console.log('[dev] MCP server spawned');
+
+// Jobs interrupted by a restart carry on where they stopped
+jobs.resume().catch(error => console.error('[Jobs] Failed to resume jobs:', error.message));
@@ -0,0 +1,4 @@
+import dotenv from 'dotenv';
+
+// Quiet variant of 'dotenv/config' for entry points whose stdout carries protocol messages
+dotenv.config({ quiet: true });
@@ -0,0 +1,28 @@
+import { createMcpClient } from '../mcp';
+import { McpLikeClient } from '../../mcp/client';
+import { DictionaryReport } from '../../mcp/types';
+import type { DictionaryEntryInput, DictionaryList } from '../../lib/dictionaries';
+
+async function withClient<T>(run: (client: McpLikeClient) => Promise<T>): Promise<T> {
+  const client = createMcpClient();
+  await client.connect();
+
+  try {
+    return await run(client);
+  } finally {
+    await client.close();
+  }
+}
+
+// The dictionary of the organization that the app's API key belongs to
+export function getDictionaryWithMCP(): Promise<DictionaryReport> {
+  return withClient(client => client.getDictionary());
+}
+
+export function addDictionaryEntriesWithMCP(list: DictionaryList, entries: DictionaryEntryInput[]): Promise<DictionaryReport> {
+  return withClient(client => client.addDictionaryEntries(list, entries));
+}
+
+export function removeDictionaryEntriesWithMCP(list: DictionaryList, ids: string[]): Promise<DictionaryReport> {
+  return withClient(client => client.removeDictionaryEntries(list, ids));
+}
@@ -0,0 +1,13 @@
+import { createMcpClient } from '../mcp';
+import { UsageGroupBy, UsageReport } from '../../mcp/types';
+
+export async function getUsageWithMCP(params: { month?: string; groupBy?: UsageGroupBy } = {}): Promise<UsageReport> {
+  const client = createMcpClient();
+  await client.connect();
+
+  try {
+    return await client.getUsage(params);
+  } finally {
+    await client.close();
+  }
+}
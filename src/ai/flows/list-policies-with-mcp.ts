@@ -0,0 +1,13 @@
+import { createMcpClient } from '../mcp';
+import { PolicyList } from '../../mcp/types';
+
+export async function listPoliciesWithMCP(): Promise<PolicyList> {
+  const client = createMcpClient();
+  await client.connect();
+
+  try {
+    return await client.listPolicies();
+  } finally {
+    await client.close();
+  }
+}
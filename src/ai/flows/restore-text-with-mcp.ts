@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { createMcpClient } from '../mcp';
+import { RestoreResult } from '../../mcp/types';
+
+const inputSchema = z.object({
+  text: z.string(),
+  sessionId: z.string().min(1),
+});
+type Input = z.input<typeof inputSchema>;
+
+export async function restoreTextWithMCP(raw: Input): Promise<RestoreResult> {
+  const { text, sessionId } = inputSchema.parse(raw);
+  const client = createMcpClient();
+  await client.connect();
+
+  try {
+    return await client.callTool<RestoreResult>({
+      name: 'restore_text',
+      arguments: { text, sessionId },
+    });
+  } finally {
+    await client.close();
+  }
+}
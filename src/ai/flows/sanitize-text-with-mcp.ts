@@ -1,84 +1,353 @@
 import { z } from 'zod';
 import { McpLikeClient } from '../../mcp/client';
+import { createMcpClient } from '../mcp';
+import {
+  ErrorCode,
+  Finding,
+  McpProtocolError,
+  ToolDefinition,
+  ToolResult,
+  UsageSummary,
+  findingSchema,
+  redactionModeSchema,
+  sanitizedFileSchema,
+  usageSummarySchema,
+  verificationReportSchema,
+} from '../../mcp/types';
+import { JsonSchema } from '../../mcp/schema';
 import { modelManager, ModelProvider } from '../../lib/models';
+import { ToolCallRequest } from '../../lib/adapters/types';
+import { modelProviderSchema } from '../../lib/providers';
+import { splitIntoChunks } from '../../lib/chunking';
+import { composeFindings } from '../../lib/redaction';
+import { localeSchema } from '../../lib/locales';
+import { RoutingDecision, getRoutingThreshold, routeLocally, routingDecisionSchema } from '../../lib/routing';
+import { TimeoutError, abortReason, linkedAbort } from '../../lib/resilience';
 
 const inputSchema = z.object({
-  text: z.string(),
-  sanitizationRequest: z.string(), // free-form user intent
-  modelProvider: z.enum(['openai', 'gemini']).optional().default('openai'),
+  text: z.string().default(''),
+  // Uploaded file to sanitize instead of text; each tool runs as a sanitize_file profile
+  file: z.object({ base64: z.string(), filename: z.string() }).optional(),
+  sanitizationRequest: z.string().default(''), // free-form user intent
+  // Skips routing and runs these tools in order (e.g. from the CLI)
+  tools: z.array(z.string()).min(1).optional(),
+  modelProvider: modelProviderSchema.optional(),
+  mode: redactionModeSchema.optional().default('redact'),
+  sessionId: z.string().optional(),
+  policy: z.string().optional(),
+  // Language of the input; detected when omitted or 'auto'
+  locale: localeSchema.or(z.literal('auto')).optional(),
 });
-type Input = z.infer<typeof inputSchema>;
+type Input = z.input<typeof inputSchema>;
+
+// One tool of the pipeline; each runs on the previous tool's output
+const pipelineStepSchema = z.object({
+  tool: z.string(),
+  modelUsed: z.string(),
+  findings: z.number(),
+  verification: verificationReportSchema.optional(),
+  usage: usageSummarySchema.optional(),
+});
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
 
 const outputSchema = z.object({
   sanitizedText: z.string(),
-  toolUsed: z.string(),
+  // Merged across the pipeline, with offsets into the original input
+  findings: z.array(findingSchema),
+  policy: z.string(),
+  sessionId: z.string().optional(),
+  // In the order they ran
+  toolsUsed: z.array(z.string()),
+  // How the tools were chosen
+  routing: routingDecisionSchema,
+  steps: z.array(pipelineStepSchema),
+  // Providers that actually served the tools, after any fallback
   modelUsed: z.string(),
+  // The last tool's check, which covers the final text; every tool's own report is in `steps`
+  verification: verificationReportSchema.optional(),
+  file: sanitizedFileSchema.optional(),
+  // Locale the tools sanitized the input as, given or detected
+  locale: localeSchema.optional(),
+  // Server-side model usage of all tool calls (planning runs here and is not included)
+  usage: usageSummarySchema.optional(),
 });
+
+// Tools the planner must never pick: restore_text does not sanitize, and the file and
+// structured tools take other inputs (sanitize_file is called with each planned tool as its profile)
+const NON_SANITIZING_TOOLS = ['restore_text', 'sanitize_file', 'sanitize_structured'];
+
+// Arguments the flow always supplies itself; the model only fills in the rest
+const FLOW_ARGUMENTS = ['text', 'mode', 'sessionId', 'policy', 'locale'];
+
+function toFunctionParameters(inputSchema: JsonSchema): JsonSchema {
+  const properties = { ...(inputSchema.properties ?? {}) };
+  FLOW_ARGUMENTS.forEach((arg) => delete properties[arg]);
+
+  return {
+    ...inputSchema,
+    type: 'object',
+    properties,
+    required: (inputSchema.required ?? []).filter((arg: string) => FLOW_ARGUMENTS.indexOf(arg) === -1),
+  };
+}
 type Output = z.infer<typeof outputSchema>;
 
+// Extra data for steps that report partial progress (e.g. chunk 3 of 10)
+export interface ProgressDetail {
+  progress?: number;
+  total?: number;
+  message?: string;
+  // partial_output: replace the draft of the sanitized text from `offset` onwards with `text`
+  offset?: number;
+  text?: string;
+  // tool_routed: which tools will run and how sure the router was
+  routing?: RoutingDecision;
+}
+
+type ProgressCallback = (step: string, detail?: ProgressDetail) => void;
+
+// Each step has its own time limit; FLOW_TIMEOUT_<STEP>_MS (e.g. FLOW_TIMEOUT_TOOL_EXEC_MS) overrides it
+const STEP_TIMEOUTS_MS = {
+  connect: 10_000,
+  list_tools: 30_000,
+  select_tool: 60_000,
+  tool_exec: 600_000,
+};
+type FlowStep = keyof typeof STEP_TIMEOUTS_MS;
+
+function stepTimeoutMs(step: FlowStep): number {
+  const value = parseInt(process.env[`FLOW_TIMEOUT_${step.toUpperCase()}_MS`] || '', 10);
+  return value > 0 ? value : STEP_TIMEOUTS_MS[step];
+}
+
+// Runs one step under its time limit; `signal` cancels whichever step is running.
+// Fails with RequestTimeout or RequestCancelled naming the step.
+async function runStep<T>(step: FlowStep, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const limit = linkedAbort(signal, stepTimeoutMs(step));
+  try {
+    return await fn(limit.signal);
+  } catch (error) {
+    if (!limit.signal.aborted) throw error;
+    const reason = abortReason(limit.signal);
+    throw reason instanceof TimeoutError
+      ? new McpProtocolError(ErrorCode.RequestTimeout, `Timed out during ${step} after ${reason.ms}ms`, { step, timeoutMs: reason.ms })
+      : new McpProtocolError(ErrorCode.RequestCancelled, `Cancelled during ${step}`, { step });
+  } finally {
+    limit.release();
+  }
+}
+
+// The planner only needs the gist: a sentence-bounded excerpt instead of the whole document
+const SELECTOR_PREVIEW_TOKENS = 120;
+
 export async function sanitizeTextWithMCP(
   raw: Input,
-  onProgress?: (step: string) => void
+  onProgress?: ProgressCallback,
+  // An already connected client is reused and left open (the CLI sanitizes many inputs per connection)
+  connected?: McpLikeClient,
+  // Cancels the flow, including the model calls it is waiting on server-side
+  signal?: AbortSignal
 ): Promise<Output> {
+  if (connected) return runFlow(connected, raw, onProgress, signal);
+
   onProgress?.('mcp_connect_start');
-  const client = new McpLikeClient(`http://localhost:${process.env.MCP_PORT ?? 9003}`);
-  await client.connect();
-  onProgress?.('mcp_connect_finish');
+  const client = createMcpClient();
+  try {
+    await runStep('connect', signal, stepSignal => client.connect({ signal: stepSignal }));
+    onProgress?.('mcp_connect_finish');
+    return await runFlow(client, raw, onProgress, signal);
+  } finally {
+    await client.close();
+  }
+}
 
+async function runFlow(
+  client: McpLikeClient,
+  raw: Input,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Output> {
   onProgress?.('list_tools');
-  const toolList = await client.listTools();
+  const toolList = await runStep('list_tools', signal, stepSignal => client.listTools({ signal: stepSignal }));
+  // Plugin tools qualify when they take text like the built-in sanitizers
+  toolList.tools = toolList.tools.filter((t) =>
+    NON_SANITIZING_TOOLS.indexOf(t.name) === -1 && !!t.inputSchema?.properties?.text
+  );
 
-  onProgress?.('select_tool');
-  const { text: userText, sanitizationRequest, modelProvider } = inputSchema.parse(raw);
+  const { text: userText, file, sanitizationRequest, tools, modelProvider, mode, sessionId, policy, locale } = inputSchema.parse(raw);
+  const provider = modelProvider ?? modelManager.getDefaultProvider();
 
-  // Create tool definitions for OpenAI
-  const tools = toolList.tools.map((t) => ({
+  // Tools named by the caller run as given; otherwise the local router decides, and the model
+  // is only asked when the router is unsure
+  let routing: RoutingDecision = tools
+    ? { tools, source: 'caller', confidence: 1, reasons: ['named by the caller'] }
+    : routeLocally(sanitizationRequest, userText, toolList.tools.map((t) => t.name), locale === 'auto' ? undefined : locale);
+  let calls: ToolCallRequest[] = routing.tools.map((name) => ({ name, arguments: {} }));
+  let plannedBy = provider;
+  const threshold = getRoutingThreshold();
+  if (routing.source === 'rules' && (routing.confidence < threshold || routing.tools.length === 0)) {
+    onProgress?.('select_tool');
+    ({ calls, plannedBy } = await runStep('select_tool', signal, stepSignal =>
+      planPipeline(toolList.tools, userText, file, sanitizationRequest, provider, stepSignal)
+    ));
+    routing = {
+      ...routing,
+      tools: calls.map((call) => call.name),
+      source: 'model',
+      reasons: routing.reasons.concat(`confidence ${routing.confidence} is below ${threshold}; planned by the model`),
+    };
+  }
+  onProgress?.('tool_routed', { message: routing.tools.join(', '), routing });
+  calls.forEach((call) => {
+    if (toolList.tools.every((t) => t.name !== call.name)) {
+      throw new Error(`Unknown sanitization tool '${call.name}'`);
+    }
+  });
+
+  onProgress?.('tool_exec_start');
+  // Each tool sanitizes what the previous one returned; the vault session carries over in pseudonymize mode
+  let text = userText;
+  let input = file;
+  let session = sessionId;
+  let findings: Finding[] = [];
+  let usage: UsageSummary | undefined;
+  const steps: PipelineStep[] = [];
+  let result: ToolResult | undefined;
+
+  for (let i = 0; i < calls.length; i++) {
+    const call = calls[i];
+    onProgress?.('pipeline_step', { progress: i + 1, total: calls.length, message: call.name });
+    result = await runStep('tool_exec', signal, stepSignal => callSanitizer(
+      client,
+      input ? {
+        name: 'sanitize_file',
+        arguments: { ...call.arguments, file: input, profile: call.name, mode, sessionId: session, policy, locale },
+      } : {
+        name: call.name,
+        // Always sanitize the full input; the planner only saw a preview of it
+        arguments: { ...call.arguments, text, mode, sessionId: session, policy, locale },
+      },
+      plannedBy,
+      stepSignal,
+      onProgress
+    ));
+
+    findings = i === 0 ? result.findings : composeFindings(findings, result.findings);
+    text = result.sanitizedText;
+    // The next tool reads the sanitized file under the original name, so its format is detected the same way
+    if (input && result.file) input = { base64: result.file.base64, filename: input.filename };
+    session = result.sessionId ?? session;
+    usage = addUsage(usage, result.usage);
+    steps.push({
+      tool: call.name,
+      modelUsed: result.provider ?? plannedBy,
+      findings: result.findings.length,
+      verification: result.verification,
+      usage: result.usage,
+    });
+  }
+  onProgress?.('tool_exec_finish');
+
+  const last = result!;
+  return {
+    sanitizedText: last.sanitizedText,
+    findings,
+    policy: last.policy,
+    sessionId: session,
+    toolsUsed: steps.map((step) => step.tool),
+    routing,
+    steps,
+    modelUsed: steps.map((step) => step.modelUsed).filter((model, i, all) => all.indexOf(model) === i).join(', '),
+    verification: last.verification,
+    file: last.file,
+    locale: last.locale,
+    usage,
+  };
+}
+
+// Calls one tool, relaying chunk progress and draft output
+async function callSanitizer(
+  client: McpLikeClient,
+  call: ToolCallRequest,
+  provider: ModelProvider,
+  signal: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<ToolResult> {
+  let result: ToolResult | undefined;
+  for await (const event of client.callToolStream(call, { provider, signal })) {
+    if (event.type === 'progress') {
+      // Long documents are sanitized in chunks; the server reports each one
+      const { progress, total, message } = event.progress;
+      onProgress?.('chunk_progress', { progress, total, message });
+    } else if (event.type === 'partial') {
+      const { offset, text, settled, total } = event.partial;
+      onProgress?.('partial_output', { offset, text, progress: settled, total });
+    } else {
+      result = event.result;
+    }
+  }
+  if (!result) throw new Error(`Tool '${call.name}' returned no result`);
+  return result;
+}
+
+function addUsage(total: UsageSummary | undefined, usage: UsageSummary | undefined): UsageSummary | undefined {
+  if (!total || !usage) return total ?? usage;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    costUsd: Math.round((total.costUsd + usage.costUsd) * 1e8) / 1e8,
+    estimated: total.estimated || usage.estimated,
+  };
+}
+
+// The model plans an ordered pipeline of advertised tools for the user's request, so mixed
+// content (e.g. a patient record with card numbers) gets every specialised tool it needs
+async function planPipeline(
+  tools: ToolDefinition[],
+  userText: string,
+  file: Input['file'],
+  sanitizationRequest: string,
+  provider: ModelProvider,
+  signal: AbortSignal
+): Promise<{ calls: ToolCallRequest[]; plannedBy: ModelProvider }> {
+  // Function definitions come straight from the schemas the server advertises
+  const functions = tools.map((t) => ({
     type: 'function' as const,
     function: {
       name: t.name,
       description: t.description,
-      parameters: {
-        type: 'object',
-        properties: {
-          text: {
-            type: 'string',
-            description: 'The text to sanitize'
-          }
-        },
-        required: ['text']
-      },
+      parameters: toFunctionParameters(t.inputSchema),
     },
   }));
 
-  const llmResp = await modelManager.generateWithTools(
-    modelProvider as ModelProvider,
+  // Files are parsed on the server, so the planner only sees their name
+  const subject = file
+    ? `User file: "${file.filename}"`
+    : `User text (excerpt of ${userText.length} characters): "${previewOf(userText)}"`;
+  const selection = await modelManager.generateWithTools(
+    provider,
     [
       {
         role: 'system',
-        content: `You are an assistant that picks exactly ONE tool from the list below to satisfy the user's request.`,
+        content: `You are an assistant that plans a sanitization pipeline from the tools below. Call every tool the user's request and text need, in the order they should run, and each tool at most once. Text that mixes kinds of sensitive data needs one tool per kind (e.g. redact_medical and redact_financial for a patient record with card numbers); when one tool covers everything, call only that one.`,
       },
       {
         role: 'user',
-        content: `User request: "${sanitizationRequest}"\nUser text (first 200 chars): "${userText.slice(0, 200)}"\n\nAvailable tools:\n${toolList.tools.map((t) => ` - ${t.name}: ${t.description}`).join('\n')}\n\nCall the best tool once and return its result.`,
+        content: `User request: "${sanitizationRequest}"\n${subject}\n\nAvailable tools:\n${tools.map((t) => ` - ${t.name}: ${t.description}`).join('\n')}\n\nCall the tools to run, in order.`,
       },
     ],
-    tools,
-    'required'
+    functions,
+    'required',
+    { signal }
   );
 
-  const call = llmResp.choices[0]?.message?.tool_calls?.[0];
-  if (!call) throw new Error('Model did not call a tool');
-
-  onProgress?.('tool_exec_start');
-  const result = await client.callTool({
-    name: call.function.name,
-    arguments: JSON.parse(call.function.arguments),
-  }, modelProvider as ModelProvider);
-  onProgress?.('tool_exec_finish');
+  // Models sometimes repeat a call; the first one keeps its place in the order
+  const calls = selection.output.filter((call, i, all) => all.findIndex((other) => other.name === call.name) === i);
+  if (calls.length === 0) throw new Error('Model did not call a tool');
+  return { calls, plannedBy: selection.provider };
+}
 
-  return {
-    sanitizedText: (result as any).sanitizedText,
-    toolUsed: call.function.name,
-    modelUsed: modelProvider,
-  };
+function previewOf(text: string): string {
+  const [first] = splitIntoChunks(text, { maxTokens: SELECTOR_PREVIEW_TOKENS, overlapTokens: 0 });
+  return first ? first.text : '';
 }
@@ -0,0 +1,9 @@
+import { McpLikeClient } from '../mcp/client';
+
+// Client for the SanitizeAI MCP server used by the Next.js flows
+export function createMcpClient(): McpLikeClient {
+  return new McpLikeClient(
+    process.env.MCP_SERVER_URL ?? `http://localhost:${process.env.MCP_PORT ?? 9003}/mcp`,
+    { apiKey: process.env.MCP_API_KEY }
+  );
+}
@@ -0,0 +1,8 @@
+import './env';
+import { server } from '../mcp/server';
+import { startStdioServer } from '../mcp/stdio';
+import { loadPlugins } from '../mcp/plugins';
+
+startStdioServer(server);
+// After the transport has moved logging to stderr
+loadPlugins(server);
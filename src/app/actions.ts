@@ -1,28 +1,88 @@
 'use server';
 
-import { sanitizeTextWithMCP } from '@/ai/flows/sanitize-text-with-mcp';
+import { sanitizeTextWithMCP, type PipelineStep } from '@/ai/flows/sanitize-text-with-mcp';
+import { restoreTextWithMCP } from '@/ai/flows/restore-text-with-mcp';
+import { listPoliciesWithMCP } from '@/ai/flows/list-policies-with-mcp';
+import { getUsageWithMCP } from '@/ai/flows/get-usage-with-mcp';
+import { addDictionaryEntriesWithMCP, getDictionaryWithMCP, removeDictionaryEntriesWithMCP } from '@/ai/flows/dictionary-with-mcp';
 import { createStreamableValue } from 'ai/rsc';
+import { modelManager } from '@/lib/models';
+import type { ModelProvider } from '@/lib/providers';
+import type { RoutingDecision } from '@/lib/routing';
+import type { Locale } from '@/lib/locales';
+import type { DictionaryEntryInput, DictionaryList } from '@/lib/dictionaries';
+import type { Finding, RedactionMode, SanitizedFile, UsageGroupBy, UsageSummary, VerificationReport } from '@/mcp/types';
+
+// Runs in progress on this server instance, by the id the page generated, so they can be cancelled
+const runs = new Map<string, AbortController>();
 
 export async function getSanitizedTextStreamAction(data: {
   text: string;
+  file?: { base64: string; filename: string };
   sanitizationRequest: string;
-  modelProvider?: 'openai' | 'gemini';
-}) {
+  modelProvider?: ModelProvider;
+  mode?: RedactionMode;
+  sessionId?: string;
+  policy?: string;
+  locale?: Locale | 'auto';
+}, runId?: string) {
   const stream = createStreamableValue<
-    { step: string } | { result: { sanitizedText: string; toolUsed: string; modelUsed: string } },
+    { step: string; progress?: number; total?: number; message?: string; offset?: number; text?: string; routing?: RoutingDecision } | { result: { sanitizedText: string; findings: Finding[]; policy: string; sessionId?: string; toolsUsed: string[]; routing: RoutingDecision; steps: PipelineStep[]; modelUsed: string; verification?: VerificationReport; file?: SanitizedFile; locale?: Locale; usage?: UsageSummary } },
     never
   >();
 
+  const controller = new AbortController();
+  if (runId) runs.set(runId, controller);
+
   (async () => {
     try {
-      const out = await sanitizeTextWithMCP(data, (step) =>
-        stream.update({ step })
+      const out = await sanitizeTextWithMCP(data, (step, detail) =>
+        stream.update({ step, ...detail }),
+        undefined,
+        controller.signal
       );
       stream.done({ result: out });
     } catch (e: any) {
       stream.error(e.message);
+    } finally {
+      if (runId) runs.delete(runId);
     }
   })();
 
   return stream.value;
 }
+
+// Best effort: the run must have started on this server instance and not finished yet
+export async function cancelSanitizationAction(runId: string) {
+  const controller = runs.get(runId);
+  controller?.abort('Cancelled by the user');
+  return { cancelled: !!controller };
+}
+
+export async function restoreTextAction(data: { text: string; sessionId: string }) {
+  return restoreTextWithMCP(data);
+}
+
+export async function listPoliciesAction() {
+  return listPoliciesWithMCP();
+}
+
+export async function getUsageAction(params: { month?: string; groupBy?: UsageGroupBy } = {}) {
+  return getUsageWithMCP(params);
+}
+
+export async function getDictionaryAction() {
+  return getDictionaryWithMCP();
+}
+
+export async function addDictionaryEntriesAction(list: DictionaryList, entries: DictionaryEntryInput[]) {
+  return addDictionaryEntriesWithMCP(list, entries);
+}
+
+export async function removeDictionaryEntriesAction(list: DictionaryList, ids: string[]) {
+  return removeDictionaryEntriesWithMCP(list, ids);
+}
+
+export async function listProvidersAction() {
+  return modelManager.describeProviders();
+}
@@ -1,16 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { readStreamableValue } from 'ai/rsc';
-import { getSanitizedTextStreamAction } from './actions';
+import { getSanitizedTextStreamAction, cancelSanitizationAction, restoreTextAction, listPoliciesAction, listProvidersAction, getUsageAction } from './actions';
+import type { Finding, PolicySummary, SanitizedFile, UsageGroupBy, UsageReport, UsageSummary, VerificationReport } from '@/mcp/types';
+import { PROVIDERS, PROVIDER_IDS, modelProviderSchema, type ProviderInfo } from '@/lib/providers';
+import type { PipelineStep } from '@/ai/flows/sanitize-text-with-mcp';
+import type { RoutingDecision } from '@/lib/routing';
+import { LOCALES, localeSchema, type Locale } from '@/lib/locales';
 
 const formSchema = z.object({
-  text: z.string().min(1, 'Text is required'),
+  // Optional when a file is uploaded instead (checked in onSubmit)
+  text: z.string(),
   sanitizationRequest: z.string().min(1, 'Sanitization request is required'),
-  modelProvider: z.enum(['openai', 'gemini']).default('openai'),
+  modelProvider: modelProviderSchema.optional(),
+  policy: z.string().default('default'),
+  locale: localeSchema.or(z.literal('auto')).default('auto'),
+  pseudonymize: z.boolean().default(false),
+  sessionId: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -23,54 +34,215 @@ const sampleData = [
   },
   {
     name: 'Financial Data',
-    text: 'Account holder: Jane Doe, IBAN: GB29 NWBK 6016 1331 9268 19, Credit Card: 4532-1234-5678-9012, Sort Code: 20-00-00',
+    text: 'Account holder: Jane Doe, IBAN: GB29 NWBK 6016 1331 9268 19, Credit Card: 4532-0151-1283-0366, Sort Code: 20-00-00',
     request: 'Redact financial information'
   },
   {
     name: 'Medical Data',
     text: 'Patient ID: MED-12345, Patient: Robert Johnson, DOB: 1978-12-03, Diagnosis: Hypertension, Medication: Lisinopril 10mg daily',
     request: 'Redact medical information'
+  },
+  {
+    name: 'German PII',
+    text: 'Herr Max Mustermann, geboren am 12.03.1980, wohnt in der Hauptstraße 5, 10115 Berlin. Steuer-ID: 86 095 742 719, Telefon: 030 12345678, E-Mail: max@example.de',
+    request: 'Personenbezogene Daten anonymisieren'
+  },
+  {
+    name: 'French PII',
+    text: 'Madame Claire Dubois, née le 4 juin 1984, habite 12 rue de la Paix, 75002 Paris. NIR : 1 84 12 76 451 089 46, téléphone : 01 23 45 67 89',
+    request: 'Anonymiser les données personnelles'
+  },
+  {
+    name: 'Spanish PII',
+    text: 'El señor Javier García López, nacido el 3 de mayo de 1979, con DNI 12345678Z, vive en la calle Mayor 10, 28013 Madrid. Teléfono: +34 612 345 678',
+    request: 'Anonimizar datos personales'
+  },
+  {
+    name: 'Japanese PII',
+    text: '山田太郎さん（1985年4月1日生まれ）の住所は〒100-0001 東京都千代田区千代田1-1です。マイナンバー：1234 5678 9018、電話：090-1234-5678',
+    request: '個人情報を匿名化してください'
   }
 ];
 
+// Reads an uploaded file as base64 (without the data: URL prefix)
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function downloadFile(file: SanitizedFile) {
+  const bytes = Uint8Array.from(atob(file.base64), (char) => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const describeRouting = (routing: RoutingDecision) =>
+  routing.source === 'caller'
+    ? 'named by the caller'
+    : routing.source === 'model'
+      ? `planned by the model; rules were ${Math.round(routing.confidence * 100)}% sure`
+      : `rules, ${Math.round(routing.confidence * 100)}% confidence`;
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 0.01 ? 5 : 2)}`;
+
 export default function Home() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState<string>('');
-  const [result, setResult] = useState<{ sanitizedText: string; toolUsed: string; modelUsed: string } | null>(null);
+  const [result, setResult] = useState<{ sanitizedText: string; findings: Finding[]; policy: string; sessionId?: string; toolsUsed: string[]; routing: RoutingDecision; steps: PipelineStep[]; modelUsed: string; verification?: VerificationReport; file?: SanitizedFile; locale?: Locale; usage?: UsageSummary } | null>(null);
+  // Sanitized text streamed while the tool runs; replaced by the result
+  const [draft, setDraft] = useState<{ text: string; settled: number; total: number } | null>(null);
+  const [submittedText, setSubmittedText] = useState('');
+  // Id of the run in progress, so it can be cancelled
+  const runId = useRef<string | null>(null);
+  const [upload, setUpload] = useState<{ base64: string; filename: string } | null>(null);
   const [rawOutput, setRawOutput] = useState<any>(null);
+  const [restoreInput, setRestoreInput] = useState('');
+  const [restoredText, setRestoredText] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [policies, setPolicies] = useState<PolicySummary[]>([]);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [usageGroupBy, setUsageGroupBy] = useState<UsageGroupBy>('team');
+  const [usageError, setUsageError] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>(
+    PROVIDER_IDS.map((id) => ({ ...PROVIDERS[id], id, model: PROVIDERS[id].defaultModel, available: true }))
+  );
 
-  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<FormData>({
+  const { register, handleSubmit, setValue, setError, watch, formState: { errors } } = useForm<FormData>({
     resolver: zodResolver(formSchema),
   });
 
+  useEffect(() => {
+    listPoliciesAction()
+      .then(({ policies }) => setPolicies(policies))
+      .catch((error) => console.error('Failed to load redaction policies:', error));
+    listProvidersAction()
+      .then((providers) => {
+        setProviders(providers);
+        const firstAvailable = providers.find((provider) => provider.available);
+        if (firstAvailable) setValue('modelProvider', firstAvailable.id);
+      })
+      .catch((error) => console.error('Failed to load model providers:', error));
+  }, [setValue]);
+
+  const loadUsage = (groupBy: UsageGroupBy) => {
+    getUsageAction({ groupBy })
+      .then((report) => {
+        setUsage(report);
+        setUsageError(null);
+      })
+      .catch((error) => setUsageError(error.message || 'Failed to load usage'));
+  };
+
+  useEffect(() => {
+    loadUsage(usageGroupBy);
+  }, [usageGroupBy]);
+
+  const cancelRun = () => {
+    if (runId.current) cancelSanitizationAction(runId.current).catch(() => undefined);
+  };
+
+  // Leaving the page stops the server from calling the model for a result nobody will see
+  useEffect(() => {
+    window.addEventListener('pagehide', cancelRun);
+    return () => {
+      window.removeEventListener('pagehide', cancelRun);
+      cancelRun();
+    };
+  }, []);
+
   const onSubmit = async (data: FormData) => {
+    if (!data.text && !upload) {
+      setError('text', { message: 'Text or a file is required' });
+      return;
+    }
     setIsProcessing(true);
     setProgress('');
     setResult(null);
+    setDraft(null);
     setRawOutput(null);
+    setSubmittedText(upload ? '' : data.text);
+    setRestoredText(null);
+    setRestoreError(null);
 
+    const id = crypto.randomUUID();
+    runId.current = id;
     try {
-      const stream = await getSanitizedTextStreamAction(data);
-      
+      const stream = await getSanitizedTextStreamAction({
+        text: upload ? '' : data.text,
+        file: upload ?? undefined,
+        sanitizationRequest: data.sanitizationRequest,
+        modelProvider: data.modelProvider,
+        policy: data.policy,
+        locale: data.locale,
+        mode: data.pseudonymize ? 'pseudonymize' : 'redact',
+        sessionId: data.sessionId || undefined,
+      }, id);
+
       for await (const chunk of readStreamableValue(stream)) {
-        if (chunk && 'step' in chunk) {
-          setProgress(chunk.step);
+        if (chunk && 'step' in chunk && chunk.step === 'partial_output') {
+          const { offset = 0, text = '', progress: settled = 0, total = 0 } = chunk;
+          setDraft((previous) => ({ text: (previous?.text ?? '').slice(0, offset) + text, settled, total }));
+          setProgress(`Sanitizing: ${total ? Math.floor((settled / total) * 100) : 0}% of the input`);
+        } else if (chunk && 'step' in chunk) {
+          setProgress(
+            chunk.step === 'chunk_progress'
+              ? `Sanitizing long document: chunk ${chunk.progress} of ${chunk.total}`
+              : chunk.step === 'pipeline_step'
+                ? `Running ${chunk.message} (tool ${chunk.progress} of ${chunk.total})`
+                : chunk.step === 'tool_routed' && chunk.routing
+                  ? `Routed to ${chunk.routing.tools.join(', ')} (${describeRouting(chunk.routing)})`
+                  : chunk.step
+          );
         } else if (chunk && 'result' in chunk) {
+          setDraft(null);
           setResult(chunk.result);
           setRawOutput(chunk);
+          if (chunk.result.sessionId) {
+            setValue('sessionId', chunk.result.sessionId);
+            setRestoreInput(chunk.result.sanitizedText);
+          }
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error:', error);
-      setProgress('Error occurred during processing');
+      setDraft(null);
+      setProgress(typeof error === 'string' ? error : error?.message || 'Error occurred during processing');
     } finally {
+      runId.current = null;
       setIsProcessing(false);
+      loadUsage(usageGroupBy);
+    }
+  };
+
+  const onFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setUpload(file ? { base64: await readFileAsBase64(file), filename: file.name } : null);
+  };
+
+  const onRestore = async () => {
+    if (!result?.sessionId) return;
+    setRestoreError(null);
+    try {
+      const restored = await restoreTextAction({ text: restoreInput, sessionId: result.sessionId });
+      setRestoredText(restored.restoredText);
+    } catch (error: any) {
+      console.error('Error:', error);
+      setRestoreError(error.message || 'Failed to restore text');
     }
   };
 
   const loadSampleData = (sample: typeof sampleData[0]) => {
     setValue('text', sample.text);
     setValue('sanitizationRequest', sample.request);
+    setValue('locale', 'auto');
   };
 
   const progressMessages: Record<string, string> = {
@@ -90,6 +262,9 @@ export default function Home() {
           <p className="text-lg text-gray-600">
             AI-powered data sanitization using Model Context Protocol (MCP)
           </p>
+          <Link href="/settings" className="text-sm text-blue-600 hover:underline">
+            Dictionary settings
+          </Link>
         </div>
 
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
@@ -131,6 +306,22 @@ export default function Home() {
               )}
             </div>
 
+            <div>
+              <label htmlFor="file" className="block text-sm font-medium text-gray-700 mb-2">
+                Or Upload a File
+              </label>
+              <input
+                id="file"
+                type="file"
+                accept=".pdf,.docx,.csv,.tsv,.json,.jsonl,.eml,.txt"
+                onChange={onFileChange}
+                className="block w-full text-sm text-gray-700"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                PDF, DOCX, CSV, JSON, email (.eml) or text. The sanitized file keeps the original format; the text above is ignored.
+              </p>
+            </div>
+
             <div>
               <label htmlFor="sanitizationRequest" className="block text-sm font-medium text-gray-700 mb-2">
                 Sanitization Request
@@ -156,21 +347,89 @@ export default function Home() {
                 id="modelProvider"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="openai">OpenAI GPT-3.5-turbo</option>
-                <option value="gemini">Google Gemini 1.5 Flash</option>
+                {providers.map((provider) => (
+                  <option key={provider.id} value={provider.id} disabled={!provider.available}>
+                    {provider.label} ({provider.model}){provider.local ? ' — stays on your network' : ''}
+                    {provider.available ? '' : ' — not configured'}
+                  </option>
+                ))}
               </select>
               {errors.modelProvider && (
                 <p className="mt-1 text-sm text-red-600">{errors.modelProvider.message}</p>
               )}
             </div>
 
+            <div>
+              <label htmlFor="policy" className="block text-sm font-medium text-gray-700 mb-2">
+                Redaction Policy
+              </label>
+              <select
+                {...register('policy')}
+                id="policy"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {policies.length === 0 && <option value="default">default</option>}
+                {policies.map((policy) => (
+                  <option key={policy.name} value={policy.name}>
+                    {policy.name}{policy.description ? ` — ${policy.description}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 mb-2">
+                Language
+              </label>
+              <select
+                {...register('locale')}
+                id="locale"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="auto">Detect automatically</option>
+                {localeSchema.options.map((locale) => (
+                  <option key={locale} value={locale}>{LOCALES[locale].language}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input {...register('pseudonymize')} type="checkbox" className="rounded border-gray-300" />
+                <span>Reversible pseudonymization (consistent tokens such as PERSON_1, stored in the local vault)</span>
+              </label>
+              {watch('pseudonymize') && (
+                <div>
+                  <label htmlFor="sessionId" className="block text-sm font-medium text-gray-700 mb-2">
+                    Vault Session ID
+                  </label>
+                  <input
+                    {...register('sessionId')}
+                    id="sessionId"
+                    type="text"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Leave empty to start a new session"
+                  />
+                </div>
+              )}
+            </div>
+
             <button
               type="submit"
               disabled={isProcessing}
               className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {isProcessing ? 'Processing...' : 'Sanitize Text'}
+              {isProcessing ? 'Processing...' : upload ? 'Sanitize File' : 'Sanitize Text'}
             </button>
+            {isProcessing && (
+              <button
+                type="button"
+                onClick={cancelRun}
+                className="w-full mt-2 bg-white text-gray-700 py-2 px-4 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
           </form>
         </div>
 
@@ -178,22 +437,47 @@ export default function Home() {
           <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Progress</h3>
             <div className="flex items-center space-x-3">
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+              {isProcessing && <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>}
               <span className="text-gray-700">{progressMessages[progress] || progress}</span>
             </div>
           </div>
         )}
 
+        {draft && !result && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Sanitized Text (draft)</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Still sanitizing; the draft may change until the result arrives.
+            </p>
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+              <pre className="whitespace-pre-wrap text-sm text-gray-800">{draft.text}</pre>
+            </div>
+          </div>
+        )}
+
         {result && (
           <div className="bg-white rounded-lg shadow-lg p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Results</h3>
             
             <div className="space-y-4">
               <div>
-                <h4 className="font-medium text-gray-700 mb-2">Tool Used:</h4>
-                <div className="bg-gray-100 px-3 py-2 rounded-md">
-                  <code className="text-sm">{result.toolUsed}</code>
-                </div>
+                <h4 className="font-medium text-gray-700 mb-2">
+                  {result.steps.length > 1 ? 'Tools Used (in order):' : 'Tool Used:'}
+                </h4>
+                <p className="text-sm text-gray-500 mb-2">
+                  {describeRouting(result.routing)}: {result.routing.reasons.join('; ')}
+                </p>
+                <ol className="space-y-1">
+                  {result.steps.map((step, index) => (
+                    <li key={index} className="bg-gray-100 px-3 py-2 rounded-md text-sm flex justify-between">
+                      <code>{step.tool}</code>
+                      <span className="text-gray-500">
+                        {step.findings} finding(s) via {step.modelUsed}
+                        {step.verification && !step.verification.passed ? ' · verification failed' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
               </div>
 
               <div>
@@ -203,6 +487,25 @@ export default function Home() {
                 </div>
               </div>
 
+              {result.locale && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Language:</h4>
+                  <div className="bg-gray-100 px-3 py-2 rounded-md text-sm">
+                    {LOCALES[result.locale].language}
+                  </div>
+                </div>
+              )}
+
+              {result.usage && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Usage:</h4>
+                  <div className="bg-gray-100 px-3 py-2 rounded-md text-sm">
+                    {result.usage.inputTokens + result.usage.outputTokens} tokens
+                    {result.usage.estimated ? ' (estimated)' : ''} · {formatCost(result.usage.costUsd)}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <h4 className="font-medium text-gray-700 mb-2">Sanitized Text:</h4>
                 <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
@@ -212,6 +515,124 @@ export default function Home() {
                 </div>
               </div>
 
+              {result.file && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Sanitized File:</h4>
+                  <button
+                    type="button"
+                    onClick={() => downloadFile(result.file!)}
+                    className="bg-gray-800 text-white py-2 px-4 rounded-md hover:bg-gray-900 text-sm"
+                  >
+                    Download {result.file.filename} ({Math.ceil(result.file.size / 1024)} KB)
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-medium text-gray-700 mb-2">Policy:</h4>
+                <div className="bg-gray-100 px-3 py-2 rounded-md">
+                  <code className="text-sm">{result.policy}</code>
+                </div>
+              </div>
+
+              {result.verification && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Verification:</h4>
+                  <div
+                    className={`px-3 py-2 rounded-md text-sm ${
+                      result.verification.passed ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                    }`}
+                  >
+                    {result.verification.passed
+                      ? `Passed (${result.verification.checks.join(', ')})`
+                      : `Failed: ${result.verification.issues.length} issue(s) after ${result.verification.attempts} attempt(s)`}
+                  </div>
+                  {result.verification.issues.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                      {result.verification.issues.map((issue, index) => (
+                        <li key={index}>
+                          <code>{issue.kind}</code> {issue.detail}{' '}
+                          <span className="text-gray-500">({issue.start}–{issue.end})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {result.sessionId && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Vault Session:</h4>
+                  <div className="bg-gray-100 px-3 py-2 rounded-md">
+                    <code className="text-sm">{result.sessionId}</code>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-medium text-gray-700 mb-2">Findings ({result.findings.length}):</h4>
+                {result.findings.length > 0 ? (
+                  <div className="overflow-x-auto border border-gray-200 rounded-md">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-gray-600">
+                        <tr>
+                          <th className="px-3 py-2">Type</th>
+                          <th className="px-3 py-2">Original</th>
+                          <th className="px-3 py-2">Replacement</th>
+                          <th className="px-3 py-2">Offsets</th>
+                          <th className="px-3 py-2">Source</th>
+                          <th className="px-3 py-2">Confidence</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.findings.map((finding, index) => (
+                          <tr key={index} className="border-t border-gray-100">
+                            <td className="px-3 py-2"><code>{finding.entityType}</code></td>
+                            <td className="px-3 py-2 text-red-700 line-through">
+                              {submittedText ? submittedText.slice(finding.start, finding.end) : '—'}
+                            </td>
+                            <td className="px-3 py-2 text-green-700"><code>{finding.replacement}</code></td>
+                            <td className="px-3 py-2 text-gray-500">{finding.start}–{finding.end}</td>
+                            <td className="px-3 py-2 text-gray-500">{finding.source}</td>
+                            <td className="px-3 py-2 text-gray-500">{finding.confidence.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Nothing was redacted.</p>
+                )}
+              </div>
+
+              {result.sessionId && (
+                <div className="pt-4 border-t border-gray-200">
+                  <h4 className="font-medium text-gray-700 mb-2">Restore Text:</h4>
+                  <p className="text-sm text-gray-500 mb-2">
+                    Paste text containing tokens from this session (e.g. a third-party model&apos;s answer) to re-identify it.
+                  </p>
+                  <textarea
+                    value={restoreInput}
+                    onChange={(e) => setRestoreInput(e.target.value)}
+                    rows={4}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={onRestore}
+                    className="mt-2 bg-gray-800 text-white py-2 px-4 rounded-md hover:bg-gray-900 text-sm"
+                  >
+                    Restore
+                  </button>
+                  {restoreError && <p className="mt-2 text-sm text-red-600">{restoreError}</p>}
+                  {restoredText !== null && (
+                    <div className="mt-3 bg-gray-50 border border-gray-200 rounded-md p-4">
+                      <pre className="whitespace-pre-wrap text-sm text-gray-800">{restoredText}</pre>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="pt-4 border-t border-gray-200">
                 <button
                   onClick={() => setRawOutput(rawOutput ? null : result)}
@@ -231,6 +652,65 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Usage{usage ? ` — ${usage.month}` : ''}
+            </h3>
+            <select
+              value={usageGroupBy}
+              onChange={(e) => setUsageGroupBy(e.target.value as UsageGroupBy)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {(['team', 'client', 'tool', 'provider', 'model', 'day'] as UsageGroupBy[]).map((groupBy) => (
+                <option key={groupBy} value={groupBy}>By {groupBy}</option>
+              ))}
+            </select>
+          </div>
+
+          {usageError && <p className="text-sm text-red-600">{usageError}</p>}
+          {usage && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                {usage.totals.requests} requests · {usage.totals.inputTokens + usage.totals.outputTokens} tokens ·{' '}
+                {formatCost(usage.totals.costUsd)} estimated
+                {usage.scope !== 'all' && <span className="text-gray-500"> ({usage.scope === 'team' ? 'your team' : 'your key'} only)</span>}
+              </p>
+              {usage.groups.length > 0 && (
+                <div className="overflow-x-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 capitalize">{usage.groupBy}</th>
+                        <th className="px-3 py-2">Requests</th>
+                        <th className="px-3 py-2">Input tokens</th>
+                        <th className="px-3 py-2">Output tokens</th>
+                        <th className="px-3 py-2">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {usage.groups.map((group) => (
+                        <tr key={group.key} className="border-t border-gray-100">
+                          <td className="px-3 py-2"><code>{group.key}</code></td>
+                          <td className="px-3 py-2">{group.requests}</td>
+                          <td className="px-3 py-2">{group.inputTokens}</td>
+                          <td className="px-3 py-2">{group.outputTokens}</td>
+                          <td className="px-3 py-2">{formatCost(group.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Today: {usage.limits.tokensToday}
+                {usage.limits.tokensPerDay ? ` of ${usage.limits.tokensPerDay}` : ''} tokens
+                {usage.limits.requestsPerMinute ? ` · limit ${usage.limits.requestsPerMinute} requests/min` : ''}
+              </p>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
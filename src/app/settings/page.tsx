@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addDictionaryEntriesAction, getDictionaryAction, removeDictionaryEntriesAction } from '../actions';
+import type { DictionaryReport } from '@/mcp/types';
+import type { DictionaryEntry, DictionaryList } from '@/lib/dictionaries';
+
+// Mirrors the server's entry schema, which re-validates everything
+const entryFormSchema = z.object({
+  list: z.enum(['deny', 'allow']),
+  term: z.string().trim().min(1, 'Term is required'),
+  match: z.enum(['exact', 'regex', 'fuzzy']),
+  entityType: z.string().regex(/^([A-Z][A-Z0-9_]*)?$/, 'Use upper-case letters, digits and _').optional(),
+  caseSensitive: z.boolean().default(false),
+  maxEdits: z.string().optional(),
+  note: z.string().optional(),
+}).refine((entry) => {
+  if (entry.match !== 'regex') return true;
+  try {
+    new RegExp(entry.term);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Not a valid regular expression', path: ['term'] });
+
+type EntryForm = z.infer<typeof entryFormSchema>;
+
+const LISTS: Array<{ list: DictionaryList; title: string; description: string }> = [
+  {
+    list: 'deny',
+    title: 'Always redact',
+    description: 'Project codenames, customer names, ticket IDs and other terms the detectors and the model do not know about.',
+  },
+  {
+    list: 'allow',
+    title: 'Never redact',
+    description: 'Your company name, public office address and other values that are safe to keep, whatever finds them.',
+  },
+];
+
+const describeMatch = (entry: DictionaryEntry) =>
+  entry.match === 'fuzzy'
+    ? `fuzzy${entry.maxEdits !== undefined ? ` (≤ ${entry.maxEdits} edits)` : ''}`
+    : entry.match;
+
+export default function DictionarySettings() {
+  const [dictionary, setDictionary] = useState<DictionaryReport | null>(null);
+  const [error, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<EntryForm>({
+    resolver: zodResolver(entryFormSchema),
+    defaultValues: { list: 'deny', match: 'exact', caseSensitive: false },
+  });
+  const list = watch('list');
+  const match = watch('match');
+
+  useEffect(() => {
+    getDictionaryAction()
+      .then(setDictionary)
+      .catch((error) => setErrorMessage(error.message || 'Failed to load the dictionary'));
+  }, []);
+
+  const save = async (change: () => Promise<DictionaryReport>) => {
+    setIsSaving(true);
+    try {
+      setDictionary(await change());
+      setErrorMessage(null);
+      return true;
+    } catch (error: any) {
+      setErrorMessage(error.message || 'Failed to save the dictionary');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSubmit = async (data: EntryForm) => {
+    const saved = await save(() => addDictionaryEntriesAction(data.list, [{
+      term: data.term,
+      match: data.match,
+      entityType: data.list === 'deny' && data.entityType ? data.entityType : undefined,
+      caseSensitive: data.caseSensitive,
+      maxEdits: data.match === 'fuzzy' && data.maxEdits ? parseInt(data.maxEdits, 10) : undefined,
+      note: data.note || undefined,
+    }]));
+    if (saved) reset({ list: data.list, match: data.match, caseSensitive: false });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Dictionary</h1>
+          <p className="text-lg text-gray-600">
+            Terms your organization always or never redacts
+            {dictionary ? <> (<code>{dictionary.organization}</code>)</> : null}
+          </p>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back to SanitizeAI
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {dictionary && !dictionary.editable && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-yellow-800">
+              Only an API key with dictionary write access may change this dictionary. Set MCP_API_KEY to one.
+            </p>
+          </div>
+        )}
+
+        {dictionary?.editable && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add a Term</h3>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="list" className="block text-sm font-medium text-gray-700 mb-2">List</label>
+                  <select
+                    {...register('list')}
+                    id="list"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="deny">Always redact</option>
+                    <option value="allow">Never redact</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="match" className="block text-sm font-medium text-gray-700 mb-2">Match</label>
+                  <select
+                    {...register('match')}
+                    id="match"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="exact">Exact term</option>
+                    <option value="fuzzy">Fuzzy (misspellings)</option>
+                    <option value="regex">Regular expression</option>
+                  </select>
+                </div>
+                {list === 'deny' && (
+                  <div>
+                    <label htmlFor="entityType" className="block text-sm font-medium text-gray-700 mb-2">Entity Type</label>
+                    <input
+                      {...register('entityType')}
+                      id="entityType"
+                      type="text"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="CUSTOM_TERM"
+                    />
+                    {errors.entityType && <p className="mt-1 text-sm text-red-600">{errors.entityType.message}</p>}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="term" className="block text-sm font-medium text-gray-700 mb-2">
+                  {match === 'regex' ? 'Pattern' : 'Term'}
+                </label>
+                <input
+                  {...register('term')}
+                  id="term"
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={match === 'regex' ? 'e.g. \\bOPS-\\d{4,6}\\b' : list === 'deny' ? 'e.g. Project Falcon' : 'e.g. Acme Corporation'}
+                />
+                {errors.term && <p className="mt-1 text-sm text-red-600">{errors.term.message}</p>}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="flex items-center">
+                  <input {...register('caseSensitive')} id="caseSensitive" type="checkbox" className="mr-2" />
+                  <label htmlFor="caseSensitive" className="text-sm text-gray-700">Case sensitive</label>
+                </div>
+                {match === 'fuzzy' && (
+                  <div>
+                    <label htmlFor="maxEdits" className="block text-sm font-medium text-gray-700 mb-2">Max Edits</label>
+                    <select
+                      {...register('maxEdits')}
+                      id="maxEdits"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">By term length</option>
+                      {[0, 1, 2, 3].map((edits) => (
+                        <option key={edits} value={String(edits)}>{edits}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className={match === 'fuzzy' ? '' : 'md:col-span-2'}>
+                  <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+                  <input
+                    {...register('note')}
+                    id="note"
+                    type="text"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Add Term'}
+              </button>
+            </form>
+          </div>
+        )}
+
+        {dictionary && LISTS.map(({ list, title, description }) => (
+          <div key={list} className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">{title}</h3>
+            <p className="text-sm text-gray-600 mb-4">{description}</p>
+            {dictionary[list].length === 0 ? (
+              <p className="text-sm text-gray-500">No terms yet.</p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2">Term</th>
+                      <th className="px-3 py-2">Match</th>
+                      {list === 'deny' && <th className="px-3 py-2">Entity type</th>}
+                      <th className="px-3 py-2">Note</th>
+                      {dictionary.editable && <th className="px-3 py-2"></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dictionary[list].map((entry) => (
+                      <tr key={entry.id} className="border-t border-gray-100">
+                        <td className="px-3 py-2">
+                          <code>{entry.term}</code>
+                          {entry.caseSensitive && <span className="ml-1 text-xs text-gray-500">(case sensitive)</span>}
+                        </td>
+                        <td className="px-3 py-2">{describeMatch(entry)}</td>
+                        {list === 'deny' && <td className="px-3 py-2"><code>{entry.entityType ?? 'CUSTOM_TERM'}</code></td>}
+                        <td className="px-3 py-2 text-gray-600">{entry.note}</td>
+                        {dictionary.editable && (
+                          <td className="px-3 py-2 text-right">
+                            <button
+                              type="button"
+                              disabled={isSaving}
+                              onClick={() => save(() => removeDictionaryEntriesAction(list, [entry.id]))}
+                              className="text-red-600 hover:underline disabled:opacity-50"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AdapterResponse,
+  AdapterSettings,
+  ChatMessage,
+  FunctionTool,
+  ProviderAdapter,
+  TextStreamHandler,
+  ToolCallRequest,
+  ToolChoice,
+  TokenUsage,
+  splitSystemPrompt,
+} from './types';
+
+const MAX_OUTPUT_TOKENS = 4096;
+
+function toMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  return messages.map(m => ({
+    role: m.role === 'assistant' ? 'assistant' : 'user',
+    content: m.content,
+  }));
+}
+
+function toUsage(usage: Anthropic.Usage): TokenUsage {
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+}
+
+function textOf(response: Anthropic.Message): string {
+  return response.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('');
+}
+
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly capabilities = { toolCalling: 'native', tokenCounting: 'exact' } as const;
+  private client: Anthropic;
+
+  constructor(private settings: AdapterSettings) {
+    this.client = new Anthropic({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseUrl,
+      timeout: settings.timeoutMs,
+      // Retries are handled by ModelManager so they can fall over to other providers
+      maxRetries: 0,
+    });
+  }
+
+  async generateText(messages: ChatMessage[], signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const response = await this.client.messages.create({
+      model: this.settings.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: this.settings.temperature,
+      system,
+      messages: toMessages(rest),
+    }, { signal });
+
+    return { output: textOf(response), usage: toUsage(response.usage) };
+  }
+
+  async streamText(messages: ChatMessage[], onText: TextStreamHandler, signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const stream = this.client.messages.stream({
+      model: this.settings.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: this.settings.temperature,
+      system,
+      messages: toMessages(rest),
+    }, { signal });
+    stream.on('text', (_delta, snapshot) => onText(snapshot));
+
+    const response = await stream.finalMessage();
+    return { output: textOf(response), usage: toUsage(response.usage) };
+  }
+
+  async generateWithTools(
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice,
+    signal?: AbortSignal
+  ): Promise<AdapterResponse<ToolCallRequest[]>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const response = await this.client.messages.create({
+      model: this.settings.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: this.settings.temperature,
+      system,
+      messages: toMessages(rest),
+      tools: tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: { type: 'object' as const, ...tool.function.parameters },
+      })),
+      tool_choice: { type: toolChoice === 'required' ? 'any' : 'auto' },
+    }, { signal });
+
+    const calls: ToolCallRequest[] = [];
+    response.content.forEach(block => {
+      if (block.type === 'tool_use') {
+        calls.push({ name: block.name, arguments: (block.input as Record<string, any>) ?? {} });
+      }
+    });
+    return { output: calls, usage: toUsage(response.usage) };
+  }
+
+  async countTokens(messages: ChatMessage[]): Promise<number> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const result = await this.client.messages.countTokens({
+      model: this.settings.model,
+      system,
+      messages: toMessages(rest),
+    });
+    return result.input_tokens;
+  }
+}
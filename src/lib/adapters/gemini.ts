@@ -0,0 +1,134 @@
+import {
+  Content,
+  FunctionCallingMode,
+  FunctionDeclarationSchema,
+  GenerateContentResponse,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  ModelParams,
+} from '@google/generative-ai';
+import {
+  AdapterResponse,
+  AdapterSettings,
+  ChatMessage,
+  FunctionTool,
+  ProviderAdapter,
+  TextStreamHandler,
+  ToolCallRequest,
+  ToolChoice,
+  TokenUsage,
+  splitSystemPrompt,
+} from './types';
+
+// Gemini accepts only an OpenAPI subset of JSON Schema (no additionalProperties, $ref, defaults...)
+const GEMINI_SCHEMA_KEYS = ['type', 'description', 'enum', 'format', 'nullable', 'required'];
+
+function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  GEMINI_SCHEMA_KEYS.forEach(key => {
+    if (schema[key] !== undefined) result[key] = schema[key];
+  });
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = {};
+    Object.keys(schema.properties).forEach(name => {
+      result.properties[name] = toGeminiSchema(schema.properties[name]);
+    });
+  }
+  return result;
+}
+
+function toContents(messages: ChatMessage[]): Content[] {
+  return messages.map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: m.content }],
+  }));
+}
+
+function toUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const metadata = response.usageMetadata;
+  return metadata ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 } : undefined;
+}
+
+export class GeminiAdapter implements ProviderAdapter {
+  readonly capabilities = { toolCalling: 'native', tokenCounting: 'exact' } as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(private settings: AdapterSettings) {
+    this.client = new GoogleGenerativeAI(settings.apiKey!);
+  }
+
+  private getModel(params: Partial<ModelParams> = {}): GenerativeModel {
+    return this.client.getGenerativeModel(
+      {
+        model: this.settings.model,
+        generationConfig: { temperature: this.settings.temperature },
+        ...params,
+      },
+      { timeout: this.settings.timeoutMs, baseUrl: this.settings.baseUrl }
+    );
+  }
+
+  async generateText(messages: ChatMessage[], signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const result = await this.getModel({ systemInstruction: system }).generateContent({
+      contents: toContents(rest),
+    }, { signal });
+    return { output: result.response.text(), usage: toUsage(result.response) };
+  }
+
+  async streamText(messages: ChatMessage[], onText: TextStreamHandler, signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const result = await this.getModel({ systemInstruction: system }).generateContentStream({
+      contents: toContents(rest),
+    }, { signal });
+
+    let output = '';
+    for await (const chunk of result.stream) {
+      output += chunk.text();
+      onText(output);
+    }
+    return { output, usage: toUsage(await result.response) };
+  }
+
+  async generateWithTools(
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice,
+    signal?: AbortSignal
+  ): Promise<AdapterResponse<ToolCallRequest[]>> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const model = this.getModel({
+      systemInstruction: system,
+      tools: [
+        {
+          functionDeclarations: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: toGeminiSchema(tool.function.parameters) as FunctionDeclarationSchema,
+          })),
+        },
+      ],
+      toolConfig: {
+        functionCallingConfig: {
+          mode: toolChoice === 'required' ? FunctionCallingMode.ANY : FunctionCallingMode.AUTO,
+        },
+      },
+    });
+
+    const result = await model.generateContent({ contents: toContents(rest) }, { signal });
+    const calls = (result.response.functionCalls() ?? []).map(call => ({
+      name: call.name,
+      arguments: (call.args as Record<string, any>) ?? {},
+    }));
+    return { output: calls, usage: toUsage(result.response) };
+  }
+
+  async countTokens(messages: ChatMessage[]): Promise<number> {
+    const { system, rest } = splitSystemPrompt(messages);
+    const result = await this.getModel({ systemInstruction: system }).countTokens({
+      contents: toContents(rest),
+    });
+    return result.totalTokens;
+  }
+}
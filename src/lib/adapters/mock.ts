@@ -0,0 +1,87 @@
+import {
+  AdapterResponse,
+  AdapterSettings,
+  ChatMessage,
+  FunctionTool,
+  ProviderAdapter,
+  TextStreamHandler,
+  ToolCallRequest,
+  ToolChoice,
+  estimateTokens,
+} from './types';
+import { sleep, throwIfAborted } from '../resilience';
+
+const STREAM_PIECE_CHARS = 8;
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2);
+}
+
+// Deterministic stand-in for a real model: no network, same input -> same output.
+// Useful for tests, demos and CI.
+export class MockAdapter implements ProviderAdapter {
+  readonly capabilities = { toolCalling: 'native', tokenCounting: 'estimate' } as const;
+
+  constructor(private settings: AdapterSettings) {}
+
+  // Canned reply (MOCK_RESPONSE or `response` in the config file); defaults to "no entities found"
+  // No usage is reported, so ModelManager's estimate is exercised. `latencyMs` simulates a slow
+  // model, e.g. to try out cancellation and timeouts
+  async generateText(_messages: ChatMessage[], signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    throwIfAborted(signal);
+    const latencyMs = Number(this.settings.options.latencyMs) || 0;
+    if (latencyMs > 0) await sleep(latencyMs, signal);
+    return { output: this.settings.options.response ?? '[]' };
+  }
+
+  // Replays the canned reply a few characters at a time; `streamDelayMs` in the config file
+  // spaces the pieces out so streaming can be seen in the UI
+  async streamText(messages: ChatMessage[], onText: TextStreamHandler, signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const { output } = await this.generateText(messages, signal);
+    const delayMs = Number(this.settings.options.streamDelayMs) || 0;
+    for (let end = 0; end < output.length; ) {
+      end = Math.min(end + STREAM_PIECE_CHARS, output.length);
+      if (delayMs > 0) await sleep(delayMs, signal);
+      throwIfAborted(signal);
+      onText(output.slice(0, end));
+    }
+    return { output };
+  }
+
+  // Picks the tool whose name and description share the most words with the user's messages
+  async generateWithTools(
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice
+  ): Promise<AdapterResponse<ToolCallRequest[]>> {
+    // Ignore the parts of the prompt that merely list the tools, or every tool would match
+    let request = messages
+      .filter(m => m.role === 'user')
+      .map(m => m.content)
+      .join(' ');
+    tools.forEach(tool => {
+      [tool.function.description, tool.function.name].forEach(echo => {
+        if (echo) request = request.split(echo).join(' ');
+      });
+    });
+    const requestWords = words(request);
+
+    let best: FunctionTool | undefined;
+    let bestScore = 0;
+    tools.forEach(tool => {
+      const toolWords = words(`${tool.function.name.replace(/_/g, ' ')} ${tool.function.description ?? ''}`);
+      const score = toolWords.filter(word => requestWords.indexOf(word) !== -1).length;
+      if (score > bestScore) {
+        best = tool;
+        bestScore = score;
+      }
+    });
+
+    if (!best && toolChoice === 'required') best = tools[0];
+    return { output: best ? [{ name: best.function.name, arguments: {} }] : [] };
+  }
+
+  async countTokens(messages: ChatMessage[]): Promise<number> {
+    return estimateTokens(messages);
+  }
+}
@@ -0,0 +1,91 @@
+import OpenAI from 'openai';
+import {
+  AdapterResponse,
+  AdapterSettings,
+  ChatMessage,
+  FunctionTool,
+  ProviderAdapter,
+  TextStreamHandler,
+  ToolCallRequest,
+  ToolChoice,
+  TokenUsage,
+  estimateTokens,
+} from './types';
+
+// Local servers often omit usage; ModelManager then estimates it
+function toUsage(usage?: OpenAI.CompletionUsage): TokenUsage | undefined {
+  return usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+}
+
+// OpenAI and any OpenAI-compatible server (Ollama, vLLM, llama.cpp)
+export class OpenAIAdapter implements ProviderAdapter {
+  readonly capabilities = { toolCalling: 'native', tokenCounting: 'estimate' } as const;
+  private client: OpenAI;
+
+  constructor(private settings: AdapterSettings) {
+    this.client = new OpenAI({
+      apiKey: settings.apiKey ?? 'not-needed',
+      baseURL: settings.baseUrl,
+      timeout: settings.timeoutMs,
+      // Retries are handled by ModelManager so they can fall over to other providers
+      maxRetries: 0,
+    });
+  }
+
+  async generateText(messages: ChatMessage[], signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const response = await this.client.chat.completions.create({
+      model: this.settings.model,
+      messages,
+      temperature: this.settings.temperature,
+    }, { signal });
+    return { output: response.choices[0]?.message?.content || '', usage: toUsage(response.usage) };
+  }
+
+  async streamText(messages: ChatMessage[], onText: TextStreamHandler, signal?: AbortSignal): Promise<AdapterResponse<string>> {
+    const stream = await this.client.chat.completions.create({
+      model: this.settings.model,
+      messages,
+      temperature: this.settings.temperature,
+      stream: true,
+      // Usage arrives in a final chunk without choices
+      stream_options: { include_usage: true },
+    }, { signal });
+
+    let output = '';
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        output += delta;
+        onText(output);
+      }
+      if (chunk.usage) usage = toUsage(chunk.usage);
+    }
+    return { output, usage };
+  }
+
+  async generateWithTools(
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice,
+    signal?: AbortSignal
+  ): Promise<AdapterResponse<ToolCallRequest[]>> {
+    const response = await this.client.chat.completions.create({
+      model: this.settings.model,
+      messages,
+      tools,
+      tool_choice: toolChoice,
+      temperature: this.settings.temperature,
+    }, { signal });
+
+    const calls = (response.choices[0]?.message?.tool_calls ?? []).map(call => ({
+      name: call.function.name,
+      arguments: JSON.parse(call.function.arguments || '{}'),
+    }));
+    return { output: calls, usage: toUsage(response.usage) };
+  }
+
+  async countTokens(messages: ChatMessage[]): Promise<number> {
+    return estimateTokens(messages);
+  }
+}
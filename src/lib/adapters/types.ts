@@ -0,0 +1,89 @@
+// Common interface every model provider adapter implements
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// OpenAI-style function definition; adapters translate it to their native format
+export interface FunctionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface ToolCallRequest {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type ToolChoice = 'auto' | 'required';
+
+export interface ProviderCapabilities {
+  toolCalling: 'native' | 'none';
+  tokenCounting: 'exact' | 'estimate';
+}
+
+export interface AdapterSettings {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  apiKey?: string;
+  baseUrl?: string;
+  // Adapter-specific options from the config file (e.g. the mock's canned response)
+  options: Record<string, any>;
+}
+
+// Tokens billed for one call, as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Providers that do not report usage leave it out and ModelManager estimates it
+export interface AdapterResponse<T> {
+  output: T;
+  usage?: TokenUsage;
+}
+
+// Receives the whole output so far (not just the newest tokens) each time more arrives
+export type TextStreamHandler = (text: string) => void;
+
+// `signal` aborts the provider request (timeouts and cancelled tool calls)
+export interface ProviderAdapter {
+  readonly capabilities: ProviderCapabilities;
+  generateText(messages: ChatMessage[], signal?: AbortSignal): Promise<AdapterResponse<string>>;
+  // Like generateText, reporting the output while the provider streams it
+  streamText?(messages: ChatMessage[], onText: TextStreamHandler, signal?: AbortSignal): Promise<AdapterResponse<string>>;
+  generateWithTools(
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice,
+    signal?: AbortSignal
+  ): Promise<AdapterResponse<ToolCallRequest[]>>;
+  countTokens(messages: ChatMessage[]): Promise<number>;
+}
+
+// Kana, kanji, hangul and full-width forms run about one token per character
+export const WIDE_CHARACTER = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/;
+
+// Rough token estimate (~4 characters per token, one per CJK character) for providers without a tokenizer endpoint
+export function estimateTextTokens(text: string): number {
+  const wide = (text.match(new RegExp(WIDE_CHARACTER.source, 'g')) ?? []).length;
+  return Math.ceil(wide + (text.length - wide) / 4);
+}
+
+export function estimateTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTextTokens(message.content) + 4, 0);
+}
+
+export function splitSystemPrompt(messages: ChatMessage[]): { system?: string; rest: ChatMessage[] } {
+  const system = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+  return { system: system || undefined, rest: messages.filter(m => m.role !== 'system') };
+}
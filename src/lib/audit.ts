@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+import { createHash, createHmac } from 'crypto';
+import path from 'path';
+import { DATA_DIR, getOrCreateSecret, readFileIfExists } from './storage';
+
+// Append-only, hash-chained audit log of tools/call requests. Each line is one JSON entry whose
+// `hash` covers its own fields and the previous entry's hash, so editing, removing or reordering
+// lines breaks the chain. Entries hold identities, counts and keyed digests, never the text itself.
+
+export type AuditOutcome = 'ok' | 'error' | 'rejected' | 'cancelled';
+
+// What the server knows about a call; the log adds seq, timestamp and the chain hashes
+export interface AuditEvent {
+  client: string;
+  team: string;
+  tool: string;
+  // ok: result returned; error: the tool failed or timed out; rejected: refused before running
+  // (scope, limits, arguments); cancelled: the caller cancelled or disconnected
+  outcome: AuditOutcome;
+  errorCode?: number;
+  provider?: string;
+  // provider:model pairs that actually answered, after any fallback
+  models?: string[];
+  policy?: string;
+  mode?: string;
+  // HMAC-SHA256 (keyed with AUDIT_HASH_SECRET) of the input and output, so a document can be matched
+  // to its entry without the log revealing low-entropy values such as SSNs
+  inputHash?: string;
+  outputHash?: string;
+  inputBytes?: number;
+  findings?: number;
+  entityCounts?: Record<string, number>;
+  verification?: { passed: boolean; attempts: number; issues: number };
+  durationMs?: number;
+}
+
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  // Hash of the last entry; record it elsewhere to detect truncation later
+  head: string;
+  errors: Array<{ line: number; seq?: number; reason: string }>;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+const TAIL_BYTES = 64 * 1024;
+
+export function getAuditLogFile(): string {
+  return path.resolve(process.env.AUDIT_LOG_FILE || path.join(DATA_DIR, 'audit', 'audit.jsonl'));
+}
+
+export function isAuditEnabled(): boolean {
+  return process.env.AUDIT_LOG !== 'off';
+}
+
+// Keys are sorted at every level so the hash does not depend on property order
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { hash, ...fields } = entry as AuditEntry;
+  return createHash('sha256').update(canonicalJson(fields), 'utf8').digest('hex');
+}
+
+export async function auditDigest(data: string | Buffer): Promise<string> {
+  const secret = await getOrCreateSecret('AUDIT_HASH_SECRET', 'audit-hash.key');
+  return `hmac-sha256:${createHmac('sha256', secret).update(data).digest('hex')}`;
+}
+
+export class AuditLog {
+  // Appends are serialized so each entry links to the one written before it
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private file: string = getAuditLogFile()) {}
+
+  append(event: AuditEvent): Promise<AuditEntry> {
+    const next = this.queue.then(() => this.write(event));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  // The tail is re-read before every write, so sequential writers (e.g. a CLI run between
+  // server requests) continue the same chain
+  private async write(event: AuditEvent): Promise<AuditEntry> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    const last = await this.lastEntry();
+    const entry: Omit<AuditEntry, 'hash'> = {
+      seq: last ? last.seq + 1 : 1,
+      timestamp: new Date().toISOString(),
+      ...event,
+      prevHash: last ? last.hash : GENESIS_HASH,
+    };
+    const complete: AuditEntry = { ...entry, hash: hashAuditEntry(entry) };
+    await fs.appendFile(this.file, JSON.stringify(complete) + '\n', { mode: 0o600 });
+    return complete;
+  }
+
+  private async lastEntry(): Promise<AuditEntry | null> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.file, 'r');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+      const lines = buffer.toString('utf8').split('\n').filter(line => line.trim());
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          return JSON.parse(lines[i]);
+        } catch {
+          // A torn last line is left for verify to report; the chain continues from the entry before it
+        }
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+export async function readAuditLog(file: string = getAuditLogFile()): Promise<string[]> {
+  const raw = (await readFileIfExists(file))?.toString('utf8') ?? '';
+  return raw.split('\n').filter(line => line.trim());
+}
+
+// Recomputes every hash and link; `expectedHead` (a previously recorded head hash) must still be in the chain
+export async function verifyAuditLog(file: string = getAuditLogFile(), expectedHead?: string): Promise<AuditVerification> {
+  const lines = await readAuditLog(file);
+  const errors: AuditVerification['errors'] = [];
+  let prevHash = GENESIS_HASH;
+  let prevSeq = 0;
+  let headSeen = !expectedHead;
+
+  lines.forEach((line, index) => {
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      errors.push({ line: index + 1, reason: 'Line is not valid JSON' });
+      return;
+    }
+    if (entry.seq !== prevSeq + 1) {
+      errors.push({ line: index + 1, seq: entry.seq, reason: `Expected seq ${prevSeq + 1}` });
+    }
+    if (entry.prevHash !== prevHash) {
+      errors.push({ line: index + 1, seq: entry.seq, reason: 'prevHash does not match the previous entry' });
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      errors.push({ line: index + 1, seq: entry.seq, reason: 'Entry was modified (hash mismatch)' });
+    }
+    if (entry.hash === expectedHead) headSeen = true;
+    prevHash = entry.hash;
+    prevSeq = entry.seq;
+  });
+
+  if (!headSeen) errors.push({ line: lines.length, reason: `Recorded head ${expectedHead} is missing (log truncated or replaced)` });
+  return { valid: errors.length === 0, entries: lines.length, head: prevHash, errors };
+}
+
+export const auditLog = new AuditLog();
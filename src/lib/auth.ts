@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, timingSafeEqual } from 'crypto';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { DEFAULT_ORGANIZATION } from './dictionaries';
+import { modelManager, ModelProvider } from './models';
+import { UsageClient, UsageLimits } from './usage';
+
+// API keys for the HTTP transport. Keys come from MCP_API_KEYS_FILE (JSON or YAML, with
+// per-key scopes) and MCP_API_KEYS=key1,key2 (full access). With no keys configured the
+// server accepts every request, which is only meant for local development.
+
+const apiKeyEntrySchema = z.object({
+  id: z.string().min(1),
+  // Either the key itself or its digest ("sha256:<hex>") so the file need not hold the secret
+  key: z.string().min(16, 'API keys must be at least 16 characters').optional(),
+  keyHash: z.string().regex(/^sha256:[0-9a-fA-F]{64}$/, 'Expected sha256:<64 hex characters>').optional(),
+  // Tool and provider names this key may use; "*" allows all
+  tools: z.array(z.string()).default(['*']),
+  providers: z.array(z.string()).default(['*']),
+  // Usage is reported per team; defaults to the key id
+  team: z.string().optional(),
+  // Whose allow/deny dictionary applies to this key's calls
+  organization: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Organization ids may only contain letters, digits, _ and -')
+    .default(DEFAULT_ORGANIZATION),
+  // Whether this key may edit its organization's dictionary or only read it
+  dictionary: z.enum(['read', 'write']).default('read'),
+  // Whose usage usage/get returns: this key's, its team's or everyone's
+  usage: z.enum(['own', 'team', 'all']).default('own'),
+  // Overrides RATE_LIMIT_RPM and TOKEN_QUOTA_PER_DAY for this key
+  limits: z.object({
+    requestsPerMinute: z.number().int().positive().optional(),
+    tokensPerDay: z.number().int().positive().optional(),
+  }).optional(),
+}).refine(entry => !!entry.key !== !!entry.keyHash, 'Set exactly one of key or keyHash');
+
+const apiKeyFileSchema = z.union([
+  z.array(apiKeyEntrySchema),
+  z.object({ keys: z.array(apiKeyEntrySchema) }),
+]);
+
+// The caller behind an authenticated request
+export interface Principal {
+  id: string;
+  team: string;
+  organization: string;
+  tools: string[];
+  providers: string[];
+  usage: 'own' | 'team' | 'all';
+  dictionary: 'read' | 'write';
+  limits?: UsageLimits;
+}
+
+const digest = (value: string): Buffer => createHash('sha256').update(value, 'utf8').digest();
+
+export class ApiKeyStore {
+  constructor(private keys: Array<{ hash: Buffer; principal: Principal }> = []) {}
+
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  // Every key is compared (in constant time) so the lookup does not leak which one matched
+  authenticate(token: string | undefined): Principal | null {
+    if (!token) return null;
+    const hash = digest(token);
+    let match: Principal | null = null;
+    this.keys.forEach(key => {
+      if (timingSafeEqual(key.hash, hash)) match = key.principal;
+    });
+    return match;
+  }
+}
+
+function readKeyFile(file: string): z.infer<typeof apiKeyEntrySchema>[] {
+  const raw = fs.readFileSync(path.resolve(file), 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  const parsed = apiKeyFileSchema.safeParse(ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid API key file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return Array.isArray(parsed.data) ? parsed.data : parsed.data.keys;
+}
+
+export function loadApiKeys(): ApiKeyStore {
+  const keys: Array<{ hash: Buffer; principal: Principal }> = [];
+
+  const file = process.env.MCP_API_KEYS_FILE;
+  if (file) {
+    readKeyFile(file).forEach(entry => {
+      keys.push({
+        hash: entry.key ? digest(entry.key) : Buffer.from(entry.keyHash!.slice('sha256:'.length), 'hex'),
+        principal: {
+          id: entry.id,
+          team: entry.team ?? entry.id,
+          organization: entry.organization,
+          tools: entry.tools,
+          providers: entry.providers,
+          usage: entry.usage,
+          dictionary: entry.dictionary,
+          limits: entry.limits,
+        },
+      });
+    });
+  }
+
+  (process.env.MCP_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean).forEach((key, i) => {
+    const id = `env-${i + 1}`;
+    keys.push({
+      hash: digest(key),
+      principal: {
+        id,
+        team: id,
+        organization: DEFAULT_ORGANIZATION,
+        tools: ['*'],
+        providers: ['*'],
+        usage: 'all',
+        dictionary: 'write',
+      },
+    });
+  });
+
+  const ids = keys.map(key => key.principal.id);
+  const duplicate = ids.filter((id, i) => ids.indexOf(id) !== i)[0];
+  if (duplicate) throw new Error(`Duplicate API key id '${duplicate}'`);
+
+  return new ApiKeyStore(keys);
+}
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+export function extractApiKey(authorization?: string, apiKeyHeader?: string): string | undefined {
+  const bearer = (authorization ?? '').match(/^Bearer\s+(\S+)\s*$/i);
+  return bearer ? bearer[1] : apiKeyHeader || undefined;
+}
+
+// Requests without a principal (stdio, in-process batch items) are not restricted
+const allows = (scope: string[], name: string) => scope.indexOf('*') !== -1 || scope.indexOf(name) !== -1;
+
+export function canUseTool(principal: Principal | undefined, tool: string): boolean {
+  return isToolInScope(principal?.tools, tool);
+}
+
+// For callers that carry a key's tool scope without the principal (batch items)
+export function isToolInScope(scope: string[] | undefined, tool: string): boolean {
+  return !scope || allows(scope, tool);
+}
+
+export function canUseProvider(principal: Principal | undefined, provider: string): boolean {
+  return !principal || allows(principal.providers, provider);
+}
+
+// The requested provider, else the server default if the key may use it, else the key's first provider
+export function resolveProvider(principal: Principal | undefined, requested?: ModelProvider): ModelProvider {
+  if (requested) return requested;
+  const fallback = modelManager.getDefaultProvider();
+  if (canUseProvider(principal, fallback)) return fallback;
+  return (principal!.providers[0] as ModelProvider) ?? fallback;
+}
+
+// Requests without a key use the default organization's dictionary
+export function organizationFor(principal: Principal | undefined): string {
+  return principal?.organization ?? DEFAULT_ORGANIZATION;
+}
+
+// Dictionary entries (regexes included) run on every caller's input, so only a key with write access may edit them
+export function canEditDictionary(principal: Principal | undefined): boolean {
+  return !!principal && principal.dictionary === 'write';
+}
+
+// Requests without a key are billed to "anonymous"
+export function usageClientFor(principal: Principal | undefined): UsageClient {
+  return principal ? { client: principal.id, team: principal.team } : { client: 'anonymous', team: 'anonymous' };
+}
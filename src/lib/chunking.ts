@@ -0,0 +1,143 @@
+import { WIDE_CHARACTER, estimateTextTokens } from './adapters/types';
+
+// Splits long documents into model-sized pieces without cutting sentences in half
+
+export interface TextChunk {
+  index: number;
+  // Offsets into the text that was split
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkingOptions {
+  maxTokens: number;
+  // Trailing sentences repeated at the start of the next chunk, so entities on a boundary are seen whole
+  overlapTokens: number;
+}
+
+export interface ChunkingConfig extends ChunkingOptions {
+  concurrency: number;
+}
+
+export function getChunkingConfig(): ChunkingConfig {
+  return {
+    maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || '2000', 10),
+    overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '100', 10),
+    concurrency: Math.max(1, parseInt(process.env.CHUNK_CONCURRENCY || '4', 10)),
+  };
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Sentence ends (Latin and CJK punctuation, optionally followed by quotes/brackets) and blank lines;
+// CJK text does not put spaces between sentences
+const SENTENCE_BOUNDARY = /[.!?]+["'”’)\]]*\s+|[。！？]+[」』）]*\s*|\n\s*\n/g;
+
+function splitSentences(text: string): Span[] {
+  const spans: Span[] = [];
+  const boundary = new RegExp(SENTENCE_BOUNDARY.source, 'g');
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text))) {
+    const end = match.index + match[0].length;
+    spans.push({ start, end });
+    start = end;
+  }
+  if (start < text.length) spans.push({ start, end: text.length });
+  return spans;
+}
+
+// Characters from `start` that fit in maxTokens, counted the same way as estimateTextTokens
+function fittingChars(text: string, start: number, end: number, maxTokens: number): number {
+  let tokens = 0;
+  let i = start;
+  while (i < end) {
+    tokens += WIDE_CHARACTER.test(text.charAt(i)) ? 1 : 0.25;
+    if (Math.ceil(tokens) > maxTokens) break;
+    i++;
+  }
+  return Math.max(1, i - start);
+}
+
+// A "sentence" longer than a whole chunk is cut at the last whitespace that fits
+function splitOversized(text: string, span: Span, maxTokens: number): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+  while (estimateTextTokens(text.slice(start, span.end)) > maxTokens) {
+    const maxChars = fittingChars(text, start, span.end, maxTokens);
+    const window = text.slice(start, start + maxChars);
+    const cut = Math.max(window.lastIndexOf(' '), window.lastIndexOf('\n'));
+    const end = cut > 0 ? start + cut + 1 : start + maxChars;
+    spans.push({ start, end });
+    start = end;
+  }
+  spans.push({ start, end: span.end });
+  return spans;
+}
+
+export function splitIntoChunks(text: string, options: ChunkingOptions): TextChunk[] {
+  if (estimateTextTokens(text) <= options.maxTokens) {
+    return [{ index: 0, start: 0, end: text.length, text }];
+  }
+
+  const sentences: Span[] = [];
+  splitSentences(text).forEach(span => sentences.push(...splitOversized(text, span, options.maxTokens)));
+  const tokens = sentences.map(span => estimateTextTokens(text.slice(span.start, span.end)));
+
+  const chunks: TextChunk[] = [];
+  let first = 0;
+  while (first < sentences.length) {
+    let next = first;
+    let size = 0;
+    while (next < sentences.length && (next === first || size + tokens[next] <= options.maxTokens)) {
+      size += tokens[next];
+      next++;
+    }
+
+    const start = sentences[first].start;
+    const end = sentences[next - 1].end;
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) });
+    if (next >= sentences.length) break;
+
+    // Step back over trailing sentences for the overlap, leaving room for at least one new sentence
+    let overlapStart = next;
+    let overlap = 0;
+    while (
+      overlapStart - 1 > first
+      && overlap + tokens[overlapStart - 1] <= options.overlapTokens
+      && overlap + tokens[overlapStart - 1] + tokens[next] <= options.maxTokens
+    ) {
+      overlap += tokens[overlapStart - 1];
+      overlapStart--;
+    }
+    first = overlapStart;
+  }
+
+  return chunks;
+}
+
+// Like Promise.all(items.map(fn)), but with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(limit, items.length); i++) workers.push(worker());
+  await Promise.all(workers);
+  return results;
+}
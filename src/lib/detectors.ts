@@ -0,0 +1,488 @@
+import { createHash } from 'crypto';
+import type { Locale } from './locales';
+
+// Deterministic rule-based detectors (regex + checksum validation)
+
+export interface DetectorMatch {
+  entityType: string;
+  value: string;
+  start: number;
+  end: number;
+  detector: string;
+  confidence: number;
+}
+
+export interface Detector {
+  name: string;
+  entityType: string;
+  pattern: RegExp;
+  confidence: number;
+  validate?: (value: string) => boolean;
+  // Shorter spans of a match (offsets into it, best first) to validate when the whole match fails
+  candidates?: (value: string) => Array<{ start: number; end: number }>;
+  // Only run for text in these locales; unset runs for every locale
+  locales?: Locale[];
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Luhn checksum used by payment card numbers
+export function isValidLuhn(value: string): boolean {
+  const digits = digitsOnly(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Runs of whole digit groups holding 13-19 digits, longest then leftmost first, so a card
+// followed by its CVV ("4111 1111 1111 1111 123") or expiry ("4111111111111111 12/25") is still found
+export function cardNumberCandidates(value: string): Array<{ start: number; end: number }> {
+  const groups: Array<{ start: number; end: number; digits: number }> = [];
+  const group = /\d+/g;
+  let match: RegExpExecArray | null;
+  while ((match = group.exec(value)) !== null) {
+    groups.push({ start: match.index, end: match.index + match[0].length, digits: match[0].length });
+  }
+
+  const spans: Array<{ start: number; end: number }> = [];
+  for (let first = 0; first < groups.length; first++) {
+    let digits = 0;
+    for (let last = first; last < groups.length; last++) {
+      digits += groups[last].digits;
+      if (digits > 19) break;
+      if (digits >= 13 && (first > 0 || last < groups.length - 1)) {
+        spans.push({ start: groups[first].start, end: groups[last].end });
+      }
+    }
+  }
+  return spans.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+}
+
+// ISO 13616 mod-97 check for IBANs
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged.split('')) {
+    const code = char.charCodeAt(0);
+    const chunk = code >= 65 ? String(code - 55) : char;
+    for (const digit of chunk.split('')) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isValidUsSsn(value: string): boolean {
+  const [area, group, serial] = value.split('-');
+  if (!area || !group || !serial) return false;
+  if (area === '000' || area === '666' || area[0] === '9') return false;
+  return group !== '00' && serial !== '0000';
+}
+
+export function isValidPhone(value: string): boolean {
+  const digits = digitsOnly(value);
+  return digits.length >= 7 && digits.length <= 15;
+}
+
+// A compressed address needs two groups and five hex digits around the "::", so scope operators
+// such as "a::b" and bare "::1" are not taken for addresses
+export function isValidIpv6(value: string): boolean {
+  const parts = value.split('::');
+  if (parts.length > 2) return false;
+
+  const groups = parts
+    .map(part => (part ? part.split(':') : []))
+    .reduce((all, part) => all.concat(part), [] as string[]);
+  if (groups.some(group => !/^[0-9A-Fa-f]{1,4}$/.test(group))) return false;
+
+  if (parts.length === 1) return groups.length === 8;
+  return groups.length >= 2 && groups.length < 8 && groups.join('').length >= 5;
+}
+
+// German Steuer-ID: 11 digits, ISO 7064 MOD 11,10 check digit, and exactly one digit repeated
+// (twice or three times) among the first ten
+export function isValidDeTaxId(value: string): boolean {
+  const digits = digitsOnly(value);
+  if (!/^[1-9]\d{10}$/.test(digits)) return false;
+
+  const counts: Record<string, number> = {};
+  digits.slice(0, 10).split('').forEach(digit => {
+    counts[digit] = (counts[digit] ?? 0) + 1;
+  });
+  const repeated = Object.keys(counts).filter(digit => counts[digit] > 1);
+  if (repeated.length !== 1 || counts[repeated[0]] > 3) return false;
+
+  let product = 10;
+  for (let i = 0; i < 10; i++) {
+    let sum = (Number(digits[i]) + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === Number(digits[10]);
+}
+
+// French NIR (numéro de sécurité sociale): 13 characters and a key of 97 - (number mod 97);
+// Corsican departments 2A and 2B count as 19 and 18
+export function isValidFrNir(value: string): boolean {
+  const nir = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[12]\d{4}(?:\d{2}|2[AB])\d{8}$/.test(nir)) return false;
+
+  const number = nir.slice(0, 13).replace('2A', '19').replace('2B', '18');
+  let remainder = 0;
+  for (const digit of number.split('')) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return 97 - remainder === Number(nir.slice(13));
+}
+
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+// Spanish DNI (8 digits) and NIE (X, Y or Z and 7 digits): the letter is the number mod 23
+export function isValidEsDni(value: string): boolean {
+  const id = value.replace(/[\s-]/g, '').toUpperCase();
+  const match = id.match(/^([XYZ]?)(\d{7,8})([A-Z])$/);
+  if (!match || match[1].length + match[2].length !== 8) return false;
+
+  // NIE prefixes stand for a leading 0, 1 or 2
+  const prefix = match[1] ? String('XYZ'.indexOf(match[1])) : '';
+  return DNI_LETTERS.charAt(Number(prefix + match[2]) % 23) === match[3];
+}
+
+// Japanese My Number (個人番号): 12 digits, the last a check digit over the other 11
+export function isValidJpMyNumber(value: string): boolean {
+  const digits = digitsOnly(value);
+  if (digits.length !== 12) return false;
+
+  let sum = 0;
+  for (let n = 1; n <= 11; n++) {
+    sum += Number(digits[11 - n]) * (n <= 6 ? n + 1 : n - 5);
+  }
+  const remainder = sum % 11;
+  return (remainder <= 1 ? 0 : 11 - remainder) === Number(digits[11]);
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Base58Check validation for legacy (P2PKH/P2SH) Bitcoin addresses
+export function isValidBase58Check(value: string): boolean {
+  const bytes: number[] = [0];
+  for (const char of value.split('')) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return false;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (let i = 0; i < value.length && value[i] === '1'; i++) bytes.push(0);
+
+  const decoded = Buffer.from(bytes.reverse());
+  if (decoded.length !== 25) return false;
+
+  const payload = decoded.subarray(0, 21);
+  const checksum = createHash('sha256')
+    .update(createHash('sha256').update(payload).digest())
+    .digest()
+    .subarray(0, 4);
+  return checksum.equals(decoded.subarray(21));
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// BIP-173 / BIP-350 checksum for SegWit (bc1...) addresses
+export function isValidBech32(value: string): boolean {
+  const address = value.toLowerCase();
+  const separator = address.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > address.length) return false;
+
+  const hrp = address.slice(0, separator);
+  const data = address
+    .slice(separator + 1)
+    .split('')
+    .map(char => BECH32_CHARSET.indexOf(char));
+  if (data.some(d => d < 0)) return false;
+
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  const values = hrp
+    .split('')
+    .map(c => c.charCodeAt(0) >> 5)
+    .concat([0], hrp.split('').map(c => c.charCodeAt(0) & 31), data);
+
+  let checksum = 1;
+  for (const v of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= generators[i];
+    }
+  }
+  // 1 = bech32 (SegWit v0), 0x2bc830a3 = bech32m (Taproot)
+  return checksum === 1 || checksum === 0x2bc830a3;
+}
+
+export const defaultDetectors: Detector[] = [
+  {
+    name: 'email',
+    entityType: 'EMAIL',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    confidence: 0.99,
+  },
+  {
+    name: 'credit_card_luhn',
+    entityType: 'CREDIT_CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    confidence: 0.97,
+    validate: isValidLuhn,
+    candidates: cardNumberCandidates,
+  },
+  {
+    name: 'iban_mod97',
+    entityType: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    confidence: 0.98,
+    validate: isValidIban,
+  },
+  {
+    // Only after a "sort code" label: the bare format is the same as a date such as 12-05-90
+    name: 'uk_sort_code',
+    entityType: 'SORT_CODE',
+    pattern: /(?<=\bsort[ -]?code\b[^\d\n]{0,20})\b\d{2}-\d{2}-\d{2}\b/gi,
+    confidence: 0.8,
+  },
+  {
+    name: 'us_ssn',
+    entityType: 'US_SSN',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    confidence: 0.9,
+    validate: isValidUsSsn,
+  },
+  {
+    // Only phone-like shapes: an international prefix, a bracketed area code, a trunk 0, or the
+    // 555-123-4567 and 555-0100 groupings; invoice numbers and other bare digit runs are left alone
+    name: 'phone',
+    entityType: 'PHONE',
+    pattern: /(?<![\w.+-])(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}|\(\d{2,4}\)[ .-]?\d{3,4}[ .-]?\d{3,4}|0\d{1,4}[ .-]?\d{3,4}[ .-]?\d{3,4}|\d{3}([ .-])\d{3}\1\d{4}|\d{3}-\d{4})(?![-.]?\d)/g,
+    confidence: 0.7,
+    validate: isValidPhone,
+  },
+  {
+    name: 'ipv4',
+    entityType: 'IP_ADDRESS',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    confidence: 0.95,
+  },
+  {
+    name: 'ipv6',
+    entityType: 'IP_ADDRESS',
+    // Not inside words, so "std::vector" stays intact
+    pattern: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+    confidence: 0.9,
+    validate: isValidIpv6,
+  },
+  {
+    name: 'bitcoin_base58',
+    entityType: 'CRYPTO_WALLET',
+    pattern: /\b[13][1-9A-HJ-NP-Za-km-z]{25,34}\b/g,
+    confidence: 0.97,
+    validate: isValidBase58Check,
+  },
+  {
+    name: 'bitcoin_bech32',
+    entityType: 'CRYPTO_WALLET',
+    pattern: /\bbc1[02-9ac-hj-np-z]{11,71}\b/gi,
+    confidence: 0.97,
+    validate: isValidBech32,
+  },
+  {
+    name: 'ethereum',
+    entityType: 'CRYPTO_WALLET',
+    pattern: /\b0x[0-9a-fA-F]{40}\b/g,
+    confidence: 0.9,
+  },
+  // Locale-specific: national IDs, and phone and postal formats the generic rules miss
+  {
+    name: 'de_tax_id',
+    entityType: 'DE_TAX_ID',
+    pattern: /\b[1-9]\d(?: ?\d{3}){3}\b/g,
+    confidence: 0.9,
+    validate: isValidDeTaxId,
+    locales: ['de'],
+  },
+  {
+    name: 'de_phone',
+    entityType: 'PHONE',
+    pattern: /(?:\+49[ -]?(?:\(0\)[ -]?)?|\b0)[1-9]\d{1,4}(?:[ /-]?\d{2,8}){1,2}\b/g,
+    confidence: 0.75,
+    validate: isValidPhone,
+    locales: ['de'],
+  },
+  {
+    name: 'fr_nir',
+    entityType: 'FR_NIR',
+    pattern: /\b[12] ?\d{2} ?(?:0[1-9]|1[0-2]|[2-9]\d) ?(?:\d{2}|2[AB]) ?\d{3} ?\d{3} ?\d{2}\b/gi,
+    confidence: 0.95,
+    validate: isValidFrNir,
+    locales: ['fr'],
+  },
+  {
+    name: 'fr_phone',
+    entityType: 'PHONE',
+    pattern: /(?:\+33[ .]?(?:\(0\)[ .]?)?|\b0)[1-9](?:[ .-]?\d{2}){4}\b/g,
+    confidence: 0.8,
+    validate: isValidPhone,
+    locales: ['fr'],
+  },
+  {
+    name: 'es_dni',
+    entityType: 'ES_DNI',
+    pattern: /\b\d{8}[ -]?[A-Za-z]\b/g,
+    confidence: 0.95,
+    validate: isValidEsDni,
+    locales: ['es'],
+  },
+  {
+    name: 'es_nie',
+    entityType: 'ES_NIE',
+    pattern: /\b[XYZxyz][ -]?\d{7}[ -]?[A-Za-z]\b/g,
+    confidence: 0.95,
+    validate: isValidEsDni,
+    locales: ['es'],
+  },
+  {
+    name: 'es_phone',
+    entityType: 'PHONE',
+    pattern: /(?:\+34[ .-]?|\b)[6789](?:[ .-]?\d){8}\b/g,
+    confidence: 0.75,
+    validate: isValidPhone,
+    locales: ['es'],
+  },
+  {
+    name: 'jp_my_number',
+    entityType: 'JP_MY_NUMBER',
+    pattern: /\b\d{4}[ -]?\d{4}[ -]?\d{4}\b/g,
+    confidence: 0.9,
+    validate: isValidJpMyNumber,
+    locales: ['ja'],
+  },
+  {
+    name: 'jp_phone',
+    entityType: 'PHONE',
+    pattern: /(?:\+81[ -]?|\b0)\d{1,4}-\d{1,4}-\d{4}\b/g,
+    confidence: 0.8,
+    validate: isValidPhone,
+    locales: ['ja'],
+  },
+  {
+    // 〒100-0001, or 100-0001 on its own
+    name: 'jp_postcode',
+    entityType: 'POSTCODE',
+    pattern: /\u3012 ?\d{3}-?\d{4}\b|(?<![\d-])\d{3}-\d{4}(?![\d-])/g,
+    confidence: 0.7,
+    locales: ['ja'],
+  },
+  {
+    // Five-digit codes are only taken before a place name ("10115 Berlin", "75008 Paris")
+    name: 'postcode_before_city',
+    entityType: 'POSTCODE',
+    pattern: /\b\d{5}(?= +[A-Z\u00C0-\u00DE])/g,
+    confidence: 0.6,
+    locales: ['de', 'fr', 'es'],
+  },
+];
+
+export class DetectorEngine {
+  private detectors: Detector[] = [];
+
+  constructor(detectors: Detector[] = []) {
+    detectors.forEach(detector => this.register(detector));
+  }
+
+  register(detector: Detector) {
+    if (!detector.pattern.global) {
+      throw new Error(`Detector '${detector.name}' pattern must use the global flag`);
+    }
+    this.detectors.push(detector);
+  }
+
+  getEntityTypes(): string[] {
+    return this.detectors
+      .map(d => d.entityType)
+      .filter((type, i, all) => all.indexOf(type) === i);
+  }
+
+  // Locale-specific detectors only run for their locales. Overlaps are resolved across every
+  // detector before filtering by `entityTypes`, so a PHONE never claims part of a card number
+  // even when only PHONE was asked for.
+  detect(text: string, entityTypes?: string[], locale?: Locale): DetectorMatch[] {
+    const candidates: DetectorMatch[] = [];
+
+    for (const detector of this.detectors) {
+      if (detector.locales && (!locale || detector.locales.indexOf(locale) === -1)) continue;
+
+      const pattern = new RegExp(detector.pattern.source, detector.pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        let span = { start: 0, end: match[0].length };
+        if (detector.validate && !detector.validate(match[0])) {
+          const value = match[0];
+          const shorter = (detector.candidates ? detector.candidates(value) : [])
+            .filter(candidate => detector.validate!(value.slice(candidate.start, candidate.end)))[0];
+          if (!shorter) continue;
+          span = shorter;
+          // What follows the shorter value (e.g. a CVV) is scanned again
+          pattern.lastIndex = match.index + span.end;
+        }
+
+        candidates.push({
+          entityType: detector.entityType,
+          value: match[0].slice(span.start, span.end),
+          start: match.index + span.start,
+          end: match.index + span.end,
+          detector: detector.name,
+          confidence: detector.confidence,
+        });
+      }
+    }
+
+    return resolveOverlaps(candidates)
+      .filter(match => !entityTypes || entityTypes.indexOf(match.entityType) !== -1);
+  }
+}
+
+// Resolve overlapping matches: most confident, then longest match wins
+export function resolveOverlaps(matches: DetectorMatch[]): DetectorMatch[] {
+  const selected: DetectorMatch[] = [];
+  matches
+    .slice()
+    .sort((a, b) => b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start))
+    .forEach(candidate => {
+      const overlaps = selected.some(s => candidate.start < s.end && s.start < candidate.end);
+      if (!overlaps) selected.push(candidate);
+    });
+
+  return selected.sort((a, b) => a.start - b.start);
+}
+
+export const detectorEngine = new DetectorEngine(defaultDetectors);
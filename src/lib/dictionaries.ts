@@ -0,0 +1,326 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { z } from 'zod';
+import { DetectorMatch } from './detectors';
+import { ensureDataDir, readFileIfExists, writeFileAtomic } from './storage';
+
+// Per-organization dictionaries: deny entries are always redacted, allow entries are never redacted
+// by detectors or the model. Each organization's dictionary is stored in <data dir>/dictionaries/<org>.json.
+
+export const DEFAULT_ORGANIZATION = 'default';
+
+// Entity type of deny matches whose entry does not name one
+export const DEFAULT_DENY_ENTITY_TYPE = 'CUSTOM_TERM';
+
+const ORGANIZATION_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const dictionaryListSchema = z.enum(['deny', 'allow']);
+
+export type DictionaryList = z.infer<typeof dictionaryListSchema>;
+
+const dictionaryEntryFields = z.object({
+  term: z.string().trim().min(1).max(500),
+  // exact: the term as a whole word or phrase; regex: a JavaScript pattern; fuzzy: tolerates misspellings
+  match: z.enum(['exact', 'regex', 'fuzzy']).default('exact'),
+  // Deny entries: the placeholder type, e.g. PROJECT_CODENAME (default CUSTOM_TERM)
+  entityType: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Use upper-case letters, digits and _').max(64).optional(),
+  caseSensitive: z.boolean().default(false),
+  // Fuzzy entries: most letters added, removed or changed (default from the term length)
+  maxEdits: z.number().int().min(0).max(3).optional(),
+  note: z.string().max(500).optional(),
+});
+
+const MAX_REGEX_LENGTH = 200;
+
+// Regex entries run on every input of a single-threaded server, so patterns that can backtrack
+// exponentially are refused: a quantified group that itself holds an unbounded quantifier, as in
+// (a+)+ or (\w*\s?)*, or a backreference. Returns why the pattern is refused.
+export function unsafeRegexReason(source: string): string | undefined {
+  if (source.length > MAX_REGEX_LENGTH) return `Regex terms may be at most ${MAX_REGEX_LENGTH} characters`;
+  if (/\\[1-9]|\\k</.test(source)) return 'Backreferences are not allowed in regex terms';
+
+  // One entry per open group: whether it contains an unbounded quantifier
+  const groups: boolean[] = [false];
+  const unboundedAt = (i: number) => {
+    const char = source.charAt(i);
+    return char === '*' || char === '+' || (char === '{' && /^\{\d*,\d*\}/.test(source.slice(i)));
+  };
+  for (let i = 0; i < source.length; i++) {
+    const char = source.charAt(i);
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Character classes hold no groups or quantifiers
+      for (i++; i < source.length && source.charAt(i) !== ']'; i++) {
+        if (source.charAt(i) === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')' && groups.length > 1) {
+      const nested = groups.pop()!;
+      const quantified = unboundedAt(i + 1);
+      if (nested && quantified) return 'Nested quantifiers such as (a+)+ are not allowed in regex terms';
+      if (nested || quantified) groups[groups.length - 1] = true;
+    } else if (unboundedAt(i)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return undefined;
+}
+
+export const dictionaryEntryInputSchema = dictionaryEntryFields.superRefine((entry, ctx) => {
+  if (entry.match !== 'regex') return;
+  try {
+    new RegExp(entry.term);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['term'], message: error.message });
+    return;
+  }
+  const unsafe = unsafeRegexReason(entry.term);
+  if (unsafe) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['term'], message: unsafe });
+});
+
+export type DictionaryEntryInput = z.input<typeof dictionaryEntryInputSchema>;
+
+export const dictionaryEntrySchema = dictionaryEntryFields.extend({
+  id: z.string(),
+  createdAt: z.string(),
+});
+
+export type DictionaryEntry = z.infer<typeof dictionaryEntrySchema>;
+
+export const dictionarySchema = z.object({
+  organization: z.string(),
+  deny: z.array(dictionaryEntrySchema).default([]),
+  allow: z.array(dictionaryEntrySchema).default([]),
+  updatedAt: z.string().optional(),
+});
+
+export type Dictionary = z.infer<typeof dictionarySchema>;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const WORD_CHAR = /[A-Za-z0-9_\u00C0-\u024F]/;
+const WORD = /[A-Za-z0-9\u00C0-\u024F]+(?:['\u2019.&-][A-Za-z0-9\u00C0-\u024F]+)*/g;
+
+function regexSpans(pattern: RegExp, text: string): Span[] {
+  const spans: Span[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    spans.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+}
+
+// Edit distance, giving up once it exceeds `limit`
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) previous.push(j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short terms get no slack: one edit turns most four-letter words into other words
+export function defaultMaxEdits(term: string): number {
+  const letters = term.replace(/\s+/g, '').length;
+  return letters < 5 ? 0 : letters < 10 ? 1 : 2;
+}
+
+// Runs of words whose text is within maxEdits of the term; a misspelling may also split or join words
+function fuzzySpans(entry: DictionaryEntry, text: string): Span[] {
+  const normalize = (value: string) => {
+    const collapsed = value.replace(/\s+/g, ' ').trim();
+    return entry.caseSensitive ? collapsed : collapsed.toLowerCase();
+  };
+  const term = normalize(entry.term);
+  const termWords = term.split(' ').length;
+  const limit = entry.maxEdits ?? defaultMaxEdits(entry.term);
+  const words = regexSpans(new RegExp(WORD.source, 'g'), text);
+
+  const spans: Span[] = [];
+  for (let i = 0; i < words.length; i++) {
+    let best: { span: Span; distance: number } | null = null;
+    for (let count = Math.max(1, termWords - 1); count <= termWords + 1 && i + count <= words.length; count++) {
+      const span = { start: words[i].start, end: words[i + count - 1].end };
+      const distance = editDistance(normalize(text.slice(span.start, span.end)), term, limit);
+      if (distance <= limit && (!best || distance < best.distance)) best = { span, distance };
+    }
+    if (best) {
+      spans.push(best.span);
+      while (i + 1 < words.length && words[i + 1].start < best.span.end) i++;
+    }
+  }
+  return spans;
+}
+
+function compileEntry(entry: DictionaryEntry): (text: string) => Span[] {
+  const flags = entry.caseSensitive ? 'g' : 'gi';
+  if (entry.match === 'fuzzy') return text => fuzzySpans(entry, text);
+  if (entry.match === 'regex') {
+    // Entries written to the file directly skip the input schema
+    const unsafe = unsafeRegexReason(entry.term);
+    if (unsafe) {
+      console.warn(`[Dictionary] Skipping regex entry ${entry.id}: ${unsafe}`);
+      return () => [];
+    }
+    const pattern = new RegExp(entry.term, flags);
+    return text => regexSpans(pattern, text);
+  }
+  // Whole words only, so "Acme" does not match inside "Acmeville"
+  const before = WORD_CHAR.test(entry.term.charAt(0)) ? '(?<![A-Za-z0-9_\\u00C0-\\u024F])' : '';
+  const after = WORD_CHAR.test(entry.term.charAt(entry.term.length - 1)) ? '(?![A-Za-z0-9_\\u00C0-\\u024F])' : '';
+  const pattern = new RegExp(`${before}${escapeRegExp(entry.term).replace(/\s+/g, '\\s+')}${after}`, flags);
+  return text => regexSpans(pattern, text);
+}
+
+const contains = (outer: Span, inner: Span) => outer.start <= inner.start && inner.end <= outer.end;
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+// A dictionary ready to run against text
+export class CompiledDictionary {
+  private deny: Array<{ entry: DictionaryEntry; find: (text: string) => Span[] }>;
+  private allow: Array<(text: string) => Span[]>;
+
+  constructor(readonly dictionary: Dictionary) {
+    this.deny = dictionary.deny.map(entry => ({ entry, find: compileEntry(entry) }));
+    this.allow = dictionary.allow.map(compileEntry);
+  }
+
+  get isEmpty(): boolean {
+    return this.deny.length === 0 && this.allow.length === 0;
+  }
+
+  // Deny matches, longest first where entries overlap
+  denied(text: string): DetectorMatch[] {
+    const matches: DetectorMatch[] = [];
+    this.deny.forEach(({ entry, find }) => {
+      find(text).forEach(span => matches.push({
+        entityType: entry.entityType ?? DEFAULT_DENY_ENTITY_TYPE,
+        value: text.slice(span.start, span.end),
+        start: span.start,
+        end: span.end,
+        detector: 'dictionary',
+        confidence: 1,
+      }));
+    });
+    const selected: DetectorMatch[] = [];
+    matches
+      .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+      .forEach(match => {
+        if (!selected.some(other => overlaps(match, other))) selected.push(match);
+      });
+    return selected.sort((a, b) => a.start - b.start);
+  }
+
+  allowedSpans(text: string): Span[] {
+    const spans: Span[] = [];
+    this.allow.forEach(find => spans.push(...find(text)));
+    return spans;
+  }
+
+  // Drops detector and model matches inside allowed text, then adds the deny matches. A match that
+  // covers a deny match entirely still hides it and is kept; one that cuts through it is dropped.
+  apply(matches: DetectorMatch[], denied: DetectorMatch[], allowed: Span[]): DetectorMatch[] {
+    const kept = matches.filter(match =>
+      match.detector !== 'dictionary'
+      && !allowed.some(span => contains(span, match))
+      && denied.every(deny => !overlaps(match, deny) || contains(match, deny))
+    );
+    return kept
+      .concat(denied.filter(deny => !kept.some(match => contains(match, deny))))
+      .sort((a, b) => a.start - b.start);
+  }
+}
+
+export class DictionaryStore {
+  // Re-read when the file changes, so edits made by another process (e.g. the CLI) are picked up
+  private cache = new Map<string, { mtimeMs: number; compiled: CompiledDictionary }>();
+  private pendingWrites = new Map<string, Promise<unknown>>();
+
+  async get(organization: string): Promise<Dictionary> {
+    return (await this.compiled(organization)).dictionary;
+  }
+
+  async compiled(organization: string): Promise<CompiledDictionary> {
+    const file = await this.file(organization);
+    const mtimeMs = await fs.stat(file).then(stat => stat.mtimeMs, () => 0);
+    const cached = this.cache.get(organization);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.compiled;
+
+    const raw = await readFileIfExists(file);
+    const parsed = dictionarySchema.safeParse(raw ? JSON.parse(raw.toString('utf8')) : { organization });
+    if (!parsed.success) {
+      throw new Error(`Invalid dictionary ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+    const compiled = new CompiledDictionary(parsed.data);
+    this.cache.set(organization, { mtimeMs, compiled });
+    return compiled;
+  }
+
+  // An entry with the same term and match type as an existing one replaces it
+  add(organization: string, list: DictionaryList, inputs: DictionaryEntryInput[]): Promise<Dictionary> {
+    return this.update(organization, dictionary => {
+      const now = new Date().toISOString();
+      inputs.forEach(input => {
+        const entry: DictionaryEntry = { ...dictionaryEntryInputSchema.parse(input), id: randomUUID(), createdAt: now };
+        dictionary[list] = dictionary[list]
+          .filter(existing => existing.term !== entry.term || existing.match !== entry.match)
+          .concat([entry]);
+      });
+    });
+  }
+
+  remove(organization: string, list: DictionaryList, ids: string[]): Promise<Dictionary> {
+    return this.update(organization, dictionary => {
+      const unknown = ids.filter(id => !dictionary[list].some(entry => entry.id === id));
+      if (unknown.length) throw new Error(`No ${list} entries with id ${unknown.join(', ')}`);
+      dictionary[list] = dictionary[list].filter(entry => ids.indexOf(entry.id) === -1);
+    });
+  }
+
+  // Updates to the same organization are serialized so none are lost
+  private update(organization: string, change: (dictionary: Dictionary) => void): Promise<Dictionary> {
+    const previous = this.pendingWrites.get(organization) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const current = await this.get(organization);
+      const dictionary: Dictionary = { ...current, deny: current.deny.slice(), allow: current.allow.slice() };
+      change(dictionary);
+      dictionary.updatedAt = new Date().toISOString();
+      // Compiling first rejects a pattern that cannot run before it is saved
+      new CompiledDictionary(dictionary);
+      await writeFileAtomic(await this.file(organization), JSON.stringify(dictionary, null, 2));
+      return dictionary;
+    });
+    this.pendingWrites.set(organization, write.catch(() => undefined));
+    return write;
+  }
+
+  private async file(organization: string): Promise<string> {
+    if (!ORGANIZATION_PATTERN.test(organization)) throw new Error(`Invalid organization '${organization}'`);
+    return path.join(await ensureDataDir('dictionaries'), `${organization}.json`);
+  }
+}
+
+export const dictionaryStore = new DictionaryStore();
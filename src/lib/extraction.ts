@@ -0,0 +1,210 @@
+import { modelManager, ModelProvider } from './models';
+import { DetectorMatch } from './detectors';
+import { ChatMessage } from './adapters/types';
+import { getChunkingConfig, mapWithConcurrency, splitIntoChunks } from './chunking';
+import { UsageMeter } from './usage';
+import { Locale, localeInstructions } from './locales';
+
+const DEFAULT_MODEL_CONFIDENCE = 0.8;
+
+const OUTPUT_INSTRUCTIONS =
+  'Return ONLY a JSON array of objects of the form {"text": "...", "type": "...", "confidence": 0.0-1.0}, ' +
+  'where "text" is copied character-for-character from the input and "type" is an UPPER_SNAKE_CASE entity type ' +
+  '(e.g. PERSON, ADDRESS, DATE_OF_BIRTH, DIAGNOSIS), listed in the order they appear in the input. Bracketed placeholders such as [EMAIL] have already been ' +
+  'handled; do not return them. Return [] if nothing needs to be redacted.';
+
+interface ExtractedEntity {
+  text: string;
+  type: string;
+  confidence?: number;
+}
+
+const isEntity = (e: any): e is ExtractedEntity =>
+  e && typeof e.text === 'string' && e.text.trim() && typeof e.type === 'string';
+
+function parseEntities(raw: string): ExtractedEntity[] {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    throw new Error(`Model did not return an entity list: ${raw}`);
+  }
+
+  const parsed = JSON.parse(raw.slice(start, end + 1));
+  if (!Array.isArray(parsed)) throw new Error('Model entity list is not an array');
+
+  return parsed.filter(isEntity);
+}
+
+// The complete objects of an entity list that is still being streamed
+function parseStreamedEntities(raw: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = raw.indexOf('[') + 1; i > 0 && i < raw.length; i++) {
+    const char = raw.charAt(i);
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth++ === 0) objectStart = i;
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      try {
+        const entity = JSON.parse(raw.slice(objectStart, i + 1));
+        if (isEntity(entity)) entities.push(entity);
+      } catch {
+        // Malformed objects are reported by parseEntities once the list is complete
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+  return entities;
+}
+
+// Where the last listed entity ends in the chunk, given that entities are listed in order
+function listedUpTo(text: string, entities: ExtractedEntity[]): number {
+  let cursor = 0;
+  entities.forEach(entity => {
+    const index = text.indexOf(entity.text, cursor);
+    if (index !== -1) cursor = index + entity.text.length;
+  });
+  return cursor;
+}
+
+// Find every occurrence of each extracted entity in the original text
+function locateEntities(text: string, entities: ExtractedEntity[], source: string): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+
+  for (const entity of entities) {
+    let index = text.indexOf(entity.text);
+    while (index !== -1) {
+      matches.push({
+        entityType: entity.type.toUpperCase(),
+        value: entity.text,
+        start: index,
+        end: index + entity.text.length,
+        detector: source,
+        confidence: typeof entity.confidence === 'number' ? entity.confidence : DEFAULT_MODEL_CONFIDENCE,
+      });
+      index = text.indexOf(entity.text, index + entity.text.length);
+    }
+  }
+
+  return matches;
+}
+
+export interface ExtractionResult {
+  matches: DetectorMatch[];
+  // Provider(s) that actually answered (may differ from the requested one after a fallback)
+  provider: string;
+}
+
+export interface PartialExtraction {
+  // Entities listed so far, located in the full text
+  matches: DetectorMatch[];
+  // Offset into the model input that the answers so far cover: finished chunks, then the
+  // running chunk up to its last listed entity
+  settled: number;
+}
+
+export interface ExtractionOptions {
+  // Called as each chunk of a long input finishes
+  onChunk?: (completed: number, total: number) => void;
+  // Streams the model output and reports entities as they arrive
+  onPartial?: (partial: PartialExtraction) => void;
+  // Receives the token usage of every model call
+  usage?: UsageMeter;
+  signal?: AbortSignal;
+  // Language of the text; the model is told to return entities as written in it
+  locale?: Locale;
+  // Provider scope of the caller's API key, which fallbacks must stay within
+  allowedProviders?: string[];
+}
+
+// Ask the model which entities to redact; offsets are computed locally against `text`.
+// Long inputs are sent in overlapping chunks, but entities are always located in the full
+// text, so offsets and placeholder numbering come out the same as for a single call.
+export async function extractEntities(
+  provider: ModelProvider,
+  text: string,
+  instructions: string,
+  modelInput: string = text,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const config = getChunkingConfig();
+  const chunks = splitIntoChunks(modelInput, config);
+  const systemPrompt = options.locale
+    ? `${instructions}\n\n${localeInstructions(options.locale)}\n\n${OUTPUT_INSTRUCTIONS}`
+    : `${instructions}\n\n${OUTPUT_INSTRUCTIONS}`;
+  const callOptions = { signal: options.signal, allowedProviders: options.allowedProviders };
+  let completed = 0;
+
+  // Entities listed so far by each chunk, for onPartial
+  const listed = chunks.map(() => ({ entities: [] as ExtractedEntity[], done: false }));
+  const reportPartial = () => {
+    const seen: Record<string, boolean> = {};
+    const found = listed.map(state => state.entities.filter(entity => {
+      const key = `${entity.type.toUpperCase()}\u0000${entity.text}`;
+      if (seen[key]) return false;
+      seen[key] = true;
+      return true;
+    }));
+
+    let settled = 0;
+    for (let i = 0; i < chunks.length; i++) {
+      if (!listed[i].done) {
+        settled = Math.max(settled, chunks[i].start + listedUpTo(chunks[i].text, listed[i].entities));
+        break;
+      }
+      // The overlap is read again by the next chunk, so it is only settled once that one is
+      settled = i + 1 < chunks.length ? chunks[i + 1].start : chunks[i].end;
+    }
+
+    const matches: DetectorMatch[] = [];
+    found.forEach(entities => matches.push(...locateEntities(text, entities, provider)));
+    options.onPartial!({ matches, settled });
+  };
+
+  const responses = await mapWithConcurrency(chunks, config.concurrency, async (chunk, index) => {
+    const messages: ChatMessage[] = [{ role: 'user', content: chunk.text }];
+    const response = options.onPartial
+      ? await modelManager.streamText(provider, messages, systemPrompt, output => {
+          const entities = parseStreamedEntities(output);
+          // Most tokens complete no entity; a retry that starts over shrinks the list
+          if (entities.length === listed[index].entities.length) return;
+          listed[index].entities = entities;
+          reportPartial();
+        }, callOptions)
+      : await modelManager.generateText(provider, messages, systemPrompt, callOptions);
+    options.usage?.add(response);
+    if (options.onPartial) {
+      listed[index] = { entities: parseStreamedEntities(response.output), done: true };
+      reportPartial();
+    }
+    options.onChunk?.(++completed, chunks.length);
+    return response;
+  });
+
+  // Entities repeated in overlapping chunks are located once
+  const seen: Record<string, boolean> = {};
+  const matches: DetectorMatch[] = [];
+  const providers: string[] = [];
+  responses.forEach(response => {
+    if (providers.indexOf(response.provider) === -1) providers.push(response.provider);
+    const entities = parseEntities(response.output).filter(entity => {
+      const key = `${entity.type.toUpperCase()}\u0000${entity.text}`;
+      if (seen[key]) return false;
+      seen[key] = true;
+      return true;
+    });
+    matches.push(...locateEntities(text, entities, `${response.provider}:${response.model}`));
+  });
+
+  return { matches, provider: providers.join('+') };
+}
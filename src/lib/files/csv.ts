@@ -0,0 +1,132 @@
+import { FileHandler, PartCollector } from './types';
+
+export interface CsvCell {
+  value: string;
+  quoted: boolean;
+}
+
+// Parsed rows plus everything needed to write the file back the way it was
+export interface CsvDocument {
+  rows: CsvCell[][];
+  bom: string;
+  delimiter: string;
+  newline: string;
+  trailingNewline: boolean;
+}
+
+// Comma, semicolon or tab: whichever appears most in the first line
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0];
+  let best = ',';
+  let bestCount = 0;
+  [',', ';', '\t'].forEach(candidate => {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes
+export function parseCsv(text: string, delimiter: string): CsvCell[][] {
+  const rows: CsvCell[][] = [];
+  let row: CsvCell[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    let value = '';
+    let quoted = false;
+
+    if (text[i] === '"') {
+      quoted = true;
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"' && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (text[i] === '"') {
+          i++;
+          break;
+        } else {
+          value += text[i++];
+        }
+      }
+    }
+    while (i < text.length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') {
+      value += text[i++];
+    }
+    row.push({ value, quoted });
+
+    if (text[i] === delimiter) {
+      i++;
+      continue;
+    }
+    // End of record (\n, \r\n or end of input)
+    if (text[i] === '\r') i++;
+    if (text[i] === '\n') i++;
+    rows.push(row);
+    row = [];
+  }
+
+  return rows;
+}
+
+function serializeCell(cell: CsvCell, delimiter: string): string {
+  const needsQuotes = cell.quoted
+    || cell.value.indexOf(delimiter) !== -1
+    || /["\r\n]/.test(cell.value);
+  return needsQuotes ? `"${cell.value.replace(/"/g, '""')}"` : cell.value;
+}
+
+export function readCsv(raw: string): CsvDocument {
+  const bom = raw.charAt(0) === '\uFEFF' ? '\uFEFF' : '';
+  const text = raw.slice(bom.length);
+  const delimiter = detectDelimiter(text);
+  return {
+    rows: parseCsv(text, delimiter),
+    bom,
+    delimiter,
+    newline: text.indexOf('\r\n') !== -1 ? '\r\n' : '\n',
+    trailingNewline: /\r?\n$/.test(text),
+  };
+}
+
+// Writes the document with new cell values, keeping delimiter, quoting and line endings
+export function writeCsv(doc: CsvDocument, valueAt: (row: number, column: number) => string): string {
+  const lines = doc.rows.map((row, r) =>
+    row
+      .map((cell, c) => serializeCell({ value: valueAt(r, c), quoted: cell.quoted }, doc.delimiter))
+      .join(doc.delimiter)
+  );
+  return doc.bom + lines.join(doc.newline) + (doc.trailingNewline ? doc.newline : '');
+}
+
+export const csvHandler: FileHandler = {
+  format: 'csv',
+  mimeType: 'text/csv',
+  extensions: ['.csv', '.tsv'],
+
+  async parse(data) {
+    const doc = readCsv(data.toString('utf8'));
+
+    // The model sees one row per line, cells separated by " | "
+    const collector = new PartCollector();
+    const indexes = doc.rows.map(row => {
+      const cellIndexes = row.map((cell, column) => {
+        if (column > 0) collector.separator(' | ');
+        return collector.add(cell.value);
+      });
+      collector.separator('\n');
+      return cellIndexes;
+    });
+
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        return Buffer.from(writeCsv(doc, (r, c) => parts[indexes[r][c]]), 'utf8');
+      },
+    };
+  },
+};
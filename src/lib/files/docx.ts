@@ -0,0 +1,72 @@
+import JSZip from 'jszip';
+import { FileHandler, PartCollector } from './types';
+
+// Word stores text in <w:t> runs inside <w:p> paragraphs. Each run is a part, so
+// redactions are written back in place and all formatting is kept.
+const TEXT_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+const TOKENS = /<w:t(\s[^>]*)?>([\s\S]*?)<\/w:t>|<\/w:p>|<w:tab\/>|<w:br\/>/g;
+
+// Characters above U+FFFF (emoji, rare CJK) need a surrogate pair; invalid code points are left as written
+function fromCodePoint(entity: string, code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code) => fromCodePoint(entity, parseInt(code, 10)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (entity, code) => fromCodePoint(entity, parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const docxHandler: FileHandler = {
+  format: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extensions: ['.docx'],
+
+  async parse(data) {
+    const zip = await JSZip.loadAsync(data);
+    const collector = new PartCollector();
+    const files: Array<{ name: string; xml: string; runs: number[] }> = [];
+
+    const names = Object.keys(zip.files).filter(name => TEXT_PARTS.test(name)).sort();
+    for (const name of names) {
+      const xml = await zip.file(name)!.async('string');
+      const runs: number[] = [];
+      const tokens = new RegExp(TOKENS.source, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = tokens.exec(xml))) {
+        if (match[0] === '</w:p>') collector.separator('\n');
+        else if (match[0] === '<w:tab/>') collector.separator('\t');
+        else if (match[0] === '<w:br/>') collector.separator('\n');
+        else runs.push(collector.add(unescapeXml(match[2])));
+      }
+      files.push({ name, xml, runs });
+    }
+
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        files.forEach(file => {
+          let run = 0;
+          const xml = file.xml.replace(new RegExp(TOKENS.source, 'g'), (token, attributes = '') => {
+            if (token.indexOf('<w:t') !== 0 || token.indexOf('<w:tab') === 0) return token;
+            const text = parts[file.runs[run++]];
+            // Leading/trailing spaces are dropped by Word unless the run preserves them
+            const preserve = /^\s|\s$/.test(text) && attributes.indexOf('xml:space') === -1 ? ' xml:space="preserve"' : '';
+            return `<w:t${attributes}${preserve}>${escapeXml(text)}</w:t>`;
+          });
+          zip.file(file.name, xml);
+        });
+        return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+      },
+    };
+  },
+};
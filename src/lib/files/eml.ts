@@ -0,0 +1,217 @@
+import { FileHandler, PartCollector } from './types';
+
+// Minimal MIME (RFC 5322/2045) handling: enough to sanitize address headers, the subject and
+// every text body part while leaving attachments and all other headers byte-for-byte intact.
+
+const SANITIZED_HEADERS = ['from', 'to', 'cc', 'bcc', 'reply-to', 'subject'];
+
+interface Header {
+  name: string;
+  value: string;
+  raw: string;
+}
+
+type Rebuild = (parts: string[]) => string;
+
+function splitHeaderBody(raw: string, nl: string): { headers: Header[]; body: string; separator: string } {
+  const blank = raw.indexOf(nl + nl);
+  const head = blank === -1 ? raw : raw.slice(0, blank);
+  const body = blank === -1 ? '' : raw.slice(blank + nl.length * 2);
+
+  const headers: Header[] = [];
+  head.split(nl).forEach(line => {
+    // Folded continuation lines start with whitespace
+    if (/^[ \t]/.test(line) && headers.length) {
+      const last = headers[headers.length - 1];
+      last.raw += nl + line;
+      last.value += ' ' + line.trim();
+      return;
+    }
+    const colon = line.indexOf(':');
+    headers.push({
+      name: colon === -1 ? '' : line.slice(0, colon).trim(),
+      value: colon === -1 ? '' : line.slice(colon + 1).trim(),
+      raw: line,
+    });
+  });
+
+  return { headers, body, separator: blank === -1 ? '' : nl + nl };
+}
+
+function headerValue(headers: Header[], name: string): string {
+  const header = headers.find(h => h.name.toLowerCase() === name);
+  return header ? header.value : '';
+}
+
+function headerParam(value: string, param: string): string | undefined {
+  const match = value.match(new RegExp(`${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function bufferEncoding(charset?: string): BufferEncoding {
+  return charset && /^(iso-8859-1|latin1|windows-1252|us-ascii)$/i.test(charset) ? 'latin1' : 'utf8';
+}
+
+// RFC 2047 encoded words: =?UTF-8?B?...?= and =?UTF-8?Q?...?=
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+            text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (__: string, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+            'latin1'
+          );
+      return bytes.toString(bufferEncoding(charset));
+    });
+}
+
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const unfolded = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < unfolded.length; i++) {
+    if (unfolded[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(unfolded.substr(i + 1, 2))) {
+      bytes.push(parseInt(unfolded.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(unfolded.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function encodeQuotedPrintable(buffer: Buffer, nl: string): string {
+  const lines: string[] = [];
+  let line = '';
+  const push = (token: string) => {
+    if (line.length + token.length > 75) {
+      lines.push(`${line}=`);
+      line = '';
+    }
+    line += token;
+  };
+
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i];
+    if (byte === 0x0a) {
+      lines.push(line.replace(/\r$/, ''));
+      line = '';
+    } else if (byte === 0x0d) {
+      line += '\r';
+    } else if ((byte >= 33 && byte <= 126 && byte !== 61) || byte === 32 || byte === 9) {
+      push(String.fromCharCode(byte));
+    } else {
+      push(`=${(byte < 16 ? '0' : '') + byte.toString(16).toUpperCase()}`);
+    }
+  }
+  lines.push(line);
+  return lines.join(nl);
+}
+
+function wrapBase64(buffer: Buffer, nl: string): string {
+  const encoded = buffer.toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += 76) lines.push(encoded.slice(i, i + 76));
+  return lines.join(nl);
+}
+
+function parseBody(headers: Header[], body: string, nl: string, collector: PartCollector): Rebuild {
+  const contentType = headerValue(headers, 'content-type') || 'text/plain';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  if (type.indexOf('multipart/') === 0) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (boundary) return parseMultipart(body, boundary, nl, collector);
+  }
+  if (type === 'message/rfc822') {
+    return parseEntity(body, nl, collector);
+  }
+  if (type !== 'text/plain' && type !== 'text/html') {
+    // Attachments and other binary parts pass through untouched
+    return () => body;
+  }
+
+  const transferEncoding = headerValue(headers, 'content-transfer-encoding').toLowerCase();
+  const encoding = bufferEncoding(headerParam(contentType, 'charset'));
+  const decoded = transferEncoding === 'base64'
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString(encoding)
+    : transferEncoding === 'quoted-printable'
+      ? decodeQuotedPrintable(body).toString(encoding)
+      : Buffer.from(body, 'latin1').toString(encoding);
+
+  const index = collector.add(decoded);
+  collector.separator('\n\n');
+
+  return parts => {
+    const text = parts[index];
+    if (transferEncoding === 'base64') return wrapBase64(Buffer.from(text, encoding), nl) + nl;
+    if (transferEncoding === 'quoted-printable') return encodeQuotedPrintable(Buffer.from(text, encoding), nl);
+    return Buffer.from(text, encoding).toString('latin1');
+  };
+}
+
+function parseMultipart(body: string, boundary: string, nl: string, collector: PartCollector): Rebuild {
+  const delimiter = `--${boundary}`;
+  const pieces = body.split(delimiter);
+  const preamble = pieces[0];
+  const rebuilds: Rebuild[] = [];
+  let closing = '';
+
+  pieces.slice(1).forEach(piece => {
+    if (piece.indexOf('--') === 0) {
+      closing = piece;
+      return;
+    }
+    // Each part sits between the newline ending the delimiter line and the newline before the next one
+    const start = piece.indexOf(nl) + nl.length;
+    const end = piece.lastIndexOf(nl) >= start ? piece.lastIndexOf(nl) : piece.length;
+    const lineTail = piece.slice(0, start);
+    const rebuildPart = parseEntity(piece.slice(start, end), nl, collector);
+    const after = piece.slice(end);
+    rebuilds.push(parts => lineTail + rebuildPart(parts) + after);
+  });
+
+  return parts => preamble + rebuilds.map(rebuild => delimiter + rebuild(parts)).join('') + (closing ? delimiter + closing : '');
+}
+
+function parseEntity(raw: string, nl: string, collector: PartCollector): Rebuild {
+  const { headers, body, separator } = splitHeaderBody(raw, nl);
+
+  const headerRebuilds: Rebuild[] = headers.map(header => {
+    if (SANITIZED_HEADERS.indexOf(header.name.toLowerCase()) === -1) return () => header.raw;
+    collector.separator(`${header.name}: `);
+    // Raw 8-bit header bytes are taken as UTF-8
+    const index = collector.add(decodeEncodedWords(Buffer.from(header.value, 'latin1').toString('utf8')));
+    collector.separator('\n');
+    return parts => `${header.name}: ${encodeHeaderValue(parts[index])}`;
+  });
+  const bodyRebuild = parseBody(headers, body, nl, collector);
+
+  return parts => headerRebuilds.map(rebuild => rebuild(parts)).join(nl) + separator + bodyRebuild(parts);
+}
+
+export const emlHandler: FileHandler = {
+  format: 'eml',
+  mimeType: 'message/rfc822',
+  extensions: ['.eml'],
+
+  async parse(data) {
+    // Work on a byte-for-byte string; text parts are decoded with their own charset
+    const raw = data.toString('latin1');
+    const nl = raw.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+    const collector = new PartCollector();
+    const rebuild = parseEntity(raw, nl, collector);
+
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        return Buffer.from(rebuild(parts), 'latin1');
+      },
+    };
+  },
+};
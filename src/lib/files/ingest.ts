@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Finding } from '../../mcp/types';
+import { csvHandler } from './csv';
+import { docxHandler } from './docx';
+import { emlHandler } from './eml';
+import { jsonHandler } from './json';
+import { pdfHandler } from './pdf';
+import { DocumentPart, FileFormat, FileHandler, PartCollector } from './types';
+
+export interface FileInput {
+  base64?: string;
+  path?: string;
+  filename?: string;
+  format?: FileFormat;
+}
+
+export interface LoadedFile {
+  data: Buffer;
+  filename: string;
+  handler: FileHandler;
+}
+
+const textHandler: FileHandler = {
+  format: 'txt',
+  mimeType: 'text/plain',
+  extensions: ['.txt', '.md', '.log'],
+
+  async parse(data) {
+    const collector = new PartCollector();
+    collector.add(data.toString('utf8'));
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        return Buffer.from(parts[0], 'utf8');
+      },
+    };
+  },
+};
+
+const HANDLERS: FileHandler[] = [textHandler, csvHandler, jsonHandler, emlHandler, docxHandler, pdfHandler];
+
+export const FILE_FORMATS = HANDLERS.map(handler => handler.format);
+
+export function getFileMaxBytes(): number {
+  return parseInt(process.env.FILE_MAX_BYTES || String(10 * 1024 * 1024), 10);
+}
+
+// Explicit format, then file extension, then the first bytes of the file
+export function detectFormat(filename: string, data: Buffer, format?: FileFormat): FileHandler {
+  if (format) return HANDLERS.find(handler => handler.format === format)!;
+
+  const extension = path.extname(filename).toLowerCase();
+  const byExtension = HANDLERS.find(handler => handler.extensions.indexOf(extension) !== -1);
+  if (byExtension) return byExtension;
+
+  const head = data.slice(0, 512).toString('latin1');
+  if (head.indexOf('%PDF-') === 0) return pdfHandler;
+  if (head.indexOf('PK\x03\x04') === 0) return docxHandler;
+  if (/^\s*[{[]/.test(head)) return jsonHandler;
+  if (/^(From|Received|Return-Path|MIME-Version|Message-ID|Delivered-To):/im.test(head)) return emlHandler;
+  return textHandler;
+}
+
+// Files are sent inline as base64, or read from FILE_INPUT_DIR when the server is local to them
+export async function loadFileInput(input: FileInput): Promise<LoadedFile> {
+  let data: Buffer;
+  let filename = input.filename;
+
+  if (input.base64 !== undefined) {
+    data = Buffer.from(input.base64, 'base64');
+  } else if (input.path !== undefined) {
+    const root = process.env.FILE_INPUT_DIR;
+    if (!root) {
+      throw new Error('Reading files by path is disabled; set FILE_INPUT_DIR or send the file as base64');
+    }
+    const resolvedRoot = path.resolve(root);
+    const resolved = path.resolve(resolvedRoot, input.path);
+    if (resolved !== resolvedRoot && resolved.indexOf(resolvedRoot + path.sep) !== 0) {
+      throw new Error(`File path '${input.path}' is outside FILE_INPUT_DIR`);
+    }
+    const stat = await fs.stat(resolved);
+    if (stat.size > getFileMaxBytes()) {
+      throw new Error(`File is larger than FILE_MAX_BYTES (${getFileMaxBytes()} bytes)`);
+    }
+    data = await fs.readFile(resolved);
+    filename = filename ?? path.basename(resolved);
+  } else {
+    throw new Error('Either file.base64 or file.path is required');
+  }
+
+  if (data.length > getFileMaxBytes()) {
+    throw new Error(`File is larger than FILE_MAX_BYTES (${getFileMaxBytes()} bytes)`);
+  }
+
+  const handler = detectFormat(filename ?? '', data, input.format);
+  return { data, filename: filename ?? `document.${handler.format}`, handler };
+}
+
+export function joinParts(parts: DocumentPart[]): string {
+  return parts.map(part => part.text).join('');
+}
+
+// Maps findings on the joined text back onto the parts. A finding that spans several parts
+// puts its replacement in the first editable one and removes the rest of the value.
+export function applyFindingsToParts(parts: DocumentPart[], findings: Finding[]): string[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  parts.forEach(part => {
+    offsets.push(offset);
+    offset += part.text.length;
+  });
+
+  const sorted = findings.slice().sort((a, b) => a.start - b.start);
+  const owners = sorted.map(finding =>
+    parts.findIndex((part, i) => part.editable && offsets[i] + part.text.length > finding.start && offsets[i] < finding.end)
+  );
+
+  return parts.map((part, i) => {
+    if (!part.editable) return part.text;
+    const partStart = offsets[i];
+    const partEnd = partStart + part.text.length;
+
+    let output = '';
+    let cursor = partStart;
+    sorted.forEach((finding, f) => {
+      if (finding.end <= partStart || finding.start >= partEnd) return;
+      const start = Math.max(finding.start, partStart);
+      if (start >= cursor) {
+        output += part.text.slice(cursor - partStart, start - partStart);
+        if (owners[f] === i) output += finding.replacement;
+      }
+      cursor = Math.max(cursor, Math.min(finding.end, partEnd));
+    });
+    return output + part.text.slice(cursor - partStart);
+  });
+}
+
+export function sanitizedFilename(filename: string): string {
+  const extension = path.extname(filename);
+  const base = extension ? filename.slice(0, -extension.length) : filename;
+  return `${base}.sanitized${extension}`;
+}
@@ -0,0 +1,84 @@
+import { FileHandler, PartCollector } from './types';
+
+export type JsonPath = Array<string | number>;
+
+// Calls visit for every string leaf; keys, numbers and booleans are left alone
+export function walkStrings(value: any, visit: (path: JsonPath, value: string) => void, path: JsonPath = []) {
+  if (typeof value === 'string') {
+    visit(path, value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => walkStrings(item, visit, path.concat(index)));
+  } else if (value && typeof value === 'object') {
+    Object.keys(value).forEach(key => walkStrings(value[key], visit, path.concat(key)));
+  }
+}
+
+export function setAtPath(root: any, path: JsonPath, value: any): any {
+  if (path.length === 0) return value;
+  let target = root;
+  path.slice(0, -1).forEach(key => {
+    target = target[key];
+  });
+  target[path[path.length - 1]] = value;
+  return root;
+}
+
+export function formatPath(path: JsonPath): string {
+  return path.map((key, i) => (typeof key === 'number' ? `[${key}]` : i === 0 ? key : `.${key}`)).join('') || '$';
+}
+
+// Indentation of the first nested line, so pretty-printed files stay pretty-printed
+function detectIndent(raw: string): string | number {
+  const match = raw.match(/\n([ \t]+)\S/);
+  return match ? match[1] : 0;
+}
+
+export function parseJsonOrLines(raw: string): { values: any[]; lines: boolean } {
+  try {
+    return { values: [JSON.parse(raw)], lines: false };
+  } catch (error) {
+    // JSON Lines (one record per line), as written by most log shippers
+    const lines = raw.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) throw error;
+    return { values: lines.map(line => JSON.parse(line)), lines: true };
+  }
+}
+
+export const jsonHandler: FileHandler = {
+  format: 'json',
+  mimeType: 'application/json',
+  extensions: ['.json', '.jsonl', '.ndjson'],
+
+  async parse(data) {
+    const raw = data.toString('utf8');
+    const { values, lines } = parseJsonOrLines(raw);
+    const indent = detectIndent(raw);
+    const newline = raw.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+
+    // The model sees "path: value" lines, so it knows what each string is
+    const collector = new PartCollector();
+    const leaves: Array<{ record: number; path: JsonPath; index: number }> = [];
+    values.forEach((value, record) => {
+      walkStrings(value, (path, leaf) => {
+        collector.separator(`${lines ? `[${record}]` : ''}${formatPath(path)}: `);
+        leaves.push({ record, path, index: collector.add(leaf) });
+        collector.separator('\n');
+      });
+    });
+
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        const output = values.map(value => JSON.parse(JSON.stringify(value)));
+        leaves.forEach(leaf => {
+          output[leaf.record] = setAtPath(output[leaf.record], leaf.path, parts[leaf.index]);
+        });
+
+        const text = lines
+          ? output.map(value => JSON.stringify(value)).join(newline) + newline
+          : JSON.stringify(output[0], null, indent) + (/\n$/.test(raw) ? newline : '');
+        return Buffer.from(text, 'utf8');
+      },
+    };
+  },
+};
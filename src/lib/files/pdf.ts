@@ -0,0 +1,86 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import { extractText } from 'unpdf';
+import { FileHandler, PartCollector } from './types';
+
+// PDFs have no editable text model, so the sanitized text is re-typeset page by page.
+// Layout, fonts and images of the original are not preserved.
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const MARGIN = 50;
+const DEFAULT_PAGE: [number, number] = [595.28, 841.89]; // A4
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+function toWinAnsi(text: string, font: PDFFont): string {
+  const charset = font.getCharacterSet();
+  return text.replace(/[^\n]/g, char => (charset.indexOf(char.charCodeAt(0)) !== -1 ? char : '?'));
+}
+
+function wrapLines(text: string, font: PDFFont, width: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(word => {
+      const candidate = line + word;
+      if (line && font.widthOfTextAtSize(candidate, FONT_SIZE) > width) {
+        lines.push(line.replace(/\s+$/, ''));
+        line = word.replace(/^\s+/, '');
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+export const pdfHandler: FileHandler = {
+  format: 'pdf',
+  mimeType: 'application/pdf',
+  extensions: ['.pdf'],
+
+  async parse(data) {
+    const { text: pages } = await extractText(new Uint8Array(data), { mergePages: false });
+    const original = await PDFDocument.load(data, { ignoreEncryption: true });
+    const sizes = original.getPages().map(page => {
+      const { width, height } = page.getSize();
+      return [width, height] as [number, number];
+    });
+
+    const collector = new PartCollector();
+    const indexes = pages.map((page, i) => {
+      if (i > 0) collector.separator('\n\n');
+      return collector.add(page);
+    });
+
+    return {
+      parts: collector.parts,
+      async rebuild(parts) {
+        const doc = await PDFDocument.create();
+        const font = await doc.embedFont(StandardFonts.Helvetica);
+
+        indexes.forEach((index, i) => {
+          const [width, height] = sizes[i] || DEFAULT_PAGE;
+          const lines = wrapLines(toWinAnsi(parts[index], font), font, width - MARGIN * 2);
+          const perPage = Math.max(1, Math.floor((height - MARGIN * 2) / LINE_HEIGHT));
+
+          // Pages that no longer fit spill over onto extra pages of the same size
+          for (let offset = 0; offset === 0 || offset < lines.length; offset += perPage) {
+            const page = doc.addPage([width, height]);
+            lines.slice(offset, offset + perPage).forEach((line, n) => {
+              page.drawText(line, {
+                x: MARGIN,
+                y: height - MARGIN - FONT_SIZE - n * LINE_HEIGHT,
+                size: FONT_SIZE,
+                font,
+                color: rgb(0, 0, 0),
+              });
+            });
+          }
+        });
+
+        return Buffer.from(await doc.save());
+      },
+    };
+  },
+};
@@ -0,0 +1,36 @@
+// File ingestion: each format is parsed into text parts that can be sanitized and written back
+
+export type FileFormat = 'txt' | 'csv' | 'json' | 'eml' | 'docx' | 'pdf';
+
+export interface DocumentPart {
+  text: string;
+  // Structural parts (delimiters, JSON keys, paragraph breaks) give the model context but are never rewritten
+  editable: boolean;
+}
+
+export interface ParsedDocument {
+  parts: DocumentPart[];
+  // Rebuilds the file from one (sanitized) string per part, in the original format
+  rebuild(parts: string[]): Promise<Buffer>;
+}
+
+export interface FileHandler {
+  format: FileFormat;
+  mimeType: string;
+  extensions: string[];
+  parse(data: Buffer): Promise<ParsedDocument>;
+}
+
+// Collects parts in document order and hands out their indexes for rebuild()
+export class PartCollector {
+  readonly parts: DocumentPart[] = [];
+
+  add(text: string, editable = true): number {
+    this.parts.push({ text, editable });
+    return this.parts.length - 1;
+  }
+
+  separator(text: string) {
+    this.add(text, false);
+  }
+}
@@ -0,0 +1,344 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { DATA_DIR, decryptText, encryptText, ensureDataDir, readFileIfExists, writeFileAtomic } from './storage';
+
+// Persistent batch jobs: many tool calls submitted at once, run in the background with
+// per-provider concurrency limits, and resumed from disk after a restart.
+//
+// Each job lives in <data dir>/jobs/<id>/: job.json (status), items.enc.json (inputs, encrypted
+// like the vault and deleted once the job finishes) and results.jsonl (one line per finished
+// item, appended as items complete).
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  status: JobStatus;
+  tool: string;
+  provider: string;
+  // API key id (and its team) that submitted the job, when the server requires keys
+  owner?: string;
+  team?: string;
+  // Organization whose dictionary applies to the items
+  organization?: string;
+  // Provider scope of the submitting key, which fallbacks and the verifier stay within
+  providers?: string[];
+  // Tool scope of the submitting key, which sanitize_file profiles stay within
+  tools?: string[];
+  // Arguments shared by every item (mode, policy, ...); item fields win
+  arguments: Record<string, any>;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface JobItem {
+  id: string;
+  arguments: Record<string, any>;
+}
+
+export interface JobItemResult {
+  index: number;
+  id: string;
+  ok: boolean;
+  result?: any;
+  error?: string;
+}
+
+export interface JobSubmission {
+  tool: string;
+  provider: string;
+  owner?: string;
+  team?: string;
+  organization?: string;
+  providers?: string[];
+  tools?: string[];
+  arguments?: Record<string, any>;
+  items: Array<{ id?: string; arguments: Record<string, any> }>;
+}
+
+// Runs one item; a rejection is recorded as a failed item, not a failed job
+// `signal` is aborted when the job is cancelled
+export type JobRunner = (
+  tool: string,
+  args: Record<string, any>,
+  provider: string,
+  job: JobRecord,
+  signal: AbortSignal
+) => Promise<any>;
+
+type JobListener = (job: JobRecord) => void;
+
+const FINISHED: JobStatus[] = ['completed', 'cancelled', 'failed'];
+const STATUS_WRITE_INTERVAL_MS = 1000;
+
+export function isFinished(job: JobRecord): boolean {
+  return FINISHED.indexOf(job.status) !== -1;
+}
+
+// BATCH_CONCURRENCY_<PROVIDER> (e.g. BATCH_CONCURRENCY_OPENAI=8), then BATCH_CONCURRENCY
+export function getBatchConcurrency(provider: string): number {
+  const value = process.env[`BATCH_CONCURRENCY_${provider.toUpperCase()}`] || process.env.BATCH_CONCURRENCY || '2';
+  return Math.max(1, parseInt(value, 10) || 1);
+}
+
+class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<() => void> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    return () => {
+      this.active--;
+      const next = this.waiting.shift();
+      if (next) next();
+    };
+  }
+}
+
+const parseLines = <T>(raw: string): T[] =>
+  raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+export class JobStore {
+  private jobDir(id: string): string {
+    if (!/^[A-Za-z0-9-]{1,64}$/.test(id)) throw new Error(`Invalid job id '${id}'`);
+    return path.join(DATA_DIR, 'jobs', id);
+  }
+
+  async create(record: JobRecord, items: JobItem[]): Promise<void> {
+    const dir = await ensureDataDir('jobs', record.id);
+    await writeFileAtomic(path.join(dir, 'items.enc.json'), JSON.stringify(await encryptText(JSON.stringify(items))));
+    await this.save(record);
+  }
+
+  async save(record: JobRecord): Promise<void> {
+    await writeFileAtomic(path.join(this.jobDir(record.id), 'job.json'), JSON.stringify(record, null, 2));
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    const raw = await readFileIfExists(path.join(this.jobDir(id), 'job.json'));
+    return raw ? JSON.parse(raw.toString('utf8')) : null;
+  }
+
+  async list(): Promise<JobRecord[]> {
+    const root = await ensureDataDir('jobs');
+    const ids = await fs.readdir(root);
+    const records = await Promise.all(ids.map(id => this.get(id).catch(() => null)));
+    return records
+      .filter((record): record is JobRecord => record !== null)
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+  }
+
+  async items(id: string): Promise<JobItem[]> {
+    const raw = await readFileIfExists(path.join(this.jobDir(id), 'items.enc.json'));
+    if (!raw) return [];
+    try {
+      return JSON.parse(await decryptText(JSON.parse(raw.toString('utf8'))));
+    } catch {
+      throw new Error(`Unable to decrypt the items of job '${id}' (wrong VAULT_KEY?)`);
+    }
+  }
+
+  // Finished jobs never run again, so their inputs are not kept
+  async removeItems(id: string): Promise<void> {
+    await fs.rm(path.join(this.jobDir(id), 'items.enc.json'), { force: true });
+  }
+
+  resultsPath(id: string): string {
+    return path.join(this.jobDir(id), 'results.jsonl');
+  }
+
+  // A crash can leave half a line at the end; it is dropped so the item runs again
+  async results(id: string): Promise<JobItemResult[]> {
+    const file = this.resultsPath(id);
+    const raw = (await readFileIfExists(file))?.toString('utf8') ?? '';
+    const complete = raw.slice(0, raw.lastIndexOf('\n') + 1);
+    if (complete.length !== raw.length) await fs.truncate(file, Buffer.byteLength(complete));
+    return parseLines<JobItemResult>(complete);
+  }
+
+  async appendResult(id: string, result: JobItemResult): Promise<void> {
+    await fs.appendFile(this.resultsPath(id), JSON.stringify(result) + '\n', { mode: 0o600 });
+  }
+}
+
+export class JobQueue {
+  private limiters = new Map<string, Semaphore>();
+  private running = new Map<string, JobRecord>();
+  // Aborts the items in flight when a running job is cancelled
+  private aborts = new Map<string, AbortController>();
+  private listeners = new Set<JobListener>();
+
+  constructor(private runner: JobRunner, private store: JobStore = new JobStore()) {}
+
+  async submit(submission: JobSubmission): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const record: JobRecord = {
+      id: randomUUID(),
+      status: 'queued',
+      tool: submission.tool,
+      provider: submission.provider,
+      owner: submission.owner,
+      team: submission.team,
+      organization: submission.organization,
+      providers: submission.providers,
+      tools: submission.tools,
+      arguments: submission.arguments ?? {},
+      total: submission.items.length,
+      succeeded: 0,
+      failed: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const items = submission.items.map((item, index) => ({ id: item.id ?? String(index), arguments: item.arguments }));
+
+    await this.store.create(record, items);
+    console.log(`[Jobs] Queued ${record.id}: ${record.total} items for ${record.tool} on ${record.provider}`);
+    this.start(record, items, []);
+    return record;
+  }
+
+  // Picks up jobs that were queued or running when the server stopped
+  async resume(): Promise<number> {
+    const unfinished = (await this.store.list()).filter(job => !isFinished(job));
+    for (const job of unfinished) {
+      let items: JobItem[];
+      let results: JobItemResult[];
+      try {
+        [items, results] = await Promise.all([this.store.items(job.id), this.store.results(job.id)]);
+      } catch (error: any) {
+        console.error(`[Jobs] Cannot resume ${job.id}:`, error.message);
+        job.error = error.message;
+        await this.finish(job, 'failed');
+        continue;
+      }
+      console.log(`[Jobs] Resuming ${job.id}: ${results.length} of ${job.total} items already done`);
+      this.start(job, items, results);
+    }
+    return unfinished.length;
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.running.get(id) ?? this.store.get(id);
+  }
+
+  list(): Promise<JobRecord[]> {
+    return this.store.list();
+  }
+
+  resultsPath(id: string): string {
+    return this.store.resultsPath(id);
+  }
+
+  // Items in flight are aborted (and recorded as failed); nothing new is started
+  async cancel(id: string): Promise<JobRecord | null> {
+    const job = await this.get(id);
+    if (!job || isFinished(job)) return job;
+    await this.finish(job, 'cancelled');
+    this.aborts.get(id)?.abort('Job cancelled');
+    return job;
+  }
+
+  // Called for every status change, including each finished item
+  onUpdate(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private limiter(provider: string): Semaphore {
+    let limiter = this.limiters.get(provider);
+    if (!limiter) {
+      limiter = new Semaphore(getBatchConcurrency(provider));
+      this.limiters.set(provider, limiter);
+    }
+    return limiter;
+  }
+
+  private start(job: JobRecord, items: JobItem[], done: JobItemResult[]) {
+    const finished = new Set(done.map(result => result.index));
+    job.succeeded = done.filter(result => result.ok).length;
+    job.failed = done.length - job.succeeded;
+    this.running.set(job.id, job);
+
+    this.process(job, items, finished).catch(async error => {
+      console.error(`[Jobs] ${job.id} failed:`, error.message);
+      job.error = error.message;
+      await this.finish(job, 'failed').catch(() => undefined);
+    });
+  }
+
+  private async process(job: JobRecord, items: JobItem[], finished: Set<number>) {
+    const pending = items.map((_, index) => index).filter(index => !finished.has(index));
+    const limiter = this.limiter(job.provider);
+    // cancel() can change the status while a worker waits for a slot
+    const cancelled = () => job.status === 'cancelled';
+    const abort = new AbortController();
+    this.aborts.set(job.id, abort);
+    let lastWrite = 0;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < pending.length && !cancelled()) {
+        const index = pending[next++];
+        const release = await limiter.acquire();
+        if (cancelled()) {
+          release();
+          return;
+        }
+        if (job.status === 'queued') await this.update(job, { status: 'running' });
+
+        const item = items[index];
+        let result: JobItemResult;
+        try {
+          const output = await this.runner(job.tool, { ...job.arguments, ...item.arguments }, job.provider, job, abort.signal);
+          result = { index, id: item.id, ok: true, result: output };
+          job.succeeded++;
+        } catch (error: any) {
+          result = { index, id: item.id, ok: false, error: error.message || 'Item failed' };
+          job.failed++;
+        } finally {
+          release();
+        }
+
+        await this.store.appendResult(job.id, result);
+        // Counters are rebuilt from results.jsonl on resume, so job.json is only refreshed periodically
+        const persist = Date.now() - lastWrite >= STATUS_WRITE_INTERVAL_MS;
+        if (persist) lastWrite = Date.now();
+        await this.update(job, {}, persist);
+      }
+    };
+
+    // One worker per allowed slot; the shared limiter keeps concurrent jobs within the provider limit
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(getBatchConcurrency(job.provider), pending.length); i++) workers.push(worker());
+    await Promise.all(workers).finally(() => this.aborts.delete(job.id));
+
+    if (!cancelled()) await this.finish(job, 'completed');
+  }
+
+  private async finish(job: JobRecord, status: JobStatus) {
+    job.finishedAt = new Date().toISOString();
+    await this.update(job, { status });
+    this.running.delete(job.id);
+    await this.store.removeItems(job.id);
+    console.log(`[Jobs] ${job.id} ${status}: ${job.succeeded} succeeded, ${job.failed} failed of ${job.total}`);
+  }
+
+  private async update(job: JobRecord, changes: Partial<JobRecord>, persist = true) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    if (persist) await this.store.save(job);
+    this.listeners.forEach(listener => listener(job));
+  }
+}
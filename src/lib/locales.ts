@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+// Languages with their own detectors and prompt hints. Detection on the input picks one when the
+// caller does not; the model is told the language so it copies entities as written.
+
+export const localeSchema = z.enum(['en', 'de', 'fr', 'es', 'ja']);
+
+export type Locale = z.infer<typeof localeSchema>;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+interface LocaleInfo {
+  language: string;
+  // What the model should look out for besides names, addresses and dates
+  hint: string;
+  // Frequent words that other supported languages do not share
+  stopwords: string[];
+  // Letters only this language uses among the supported ones
+  letters?: RegExp;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: {
+    language: 'English',
+    hint: 'US and UK formats (SSNs, ZIP codes and postcodes, sort codes).',
+    stopwords: ['the', 'and', 'of', 'to', 'is', 'was', 'with', 'for', 'this', 'that', 'his', 'her', 'has', 'born'],
+  },
+  de: {
+    language: 'German',
+    hint: 'Steuer-ID (tax ID), Sozialversicherungsnummer, Personalausweis numbers, German phone numbers and five-digit Postleitzahlen.',
+    stopwords: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'von', 'den', 'dem', 'ein', 'eine', 'zu', 'auf', 'für', 'im', 'wurde', 'geboren', 'herr', 'frau'],
+    letters: /[\u00E4\u00F6\u00FC\u00DF]/gi,
+  },
+  fr: {
+    language: 'French',
+    hint: 'NIR (numéro de sécurité sociale), numéros fiscaux, French phone numbers written in pairs of digits and five-digit codes postaux.',
+    stopwords: ['le', 'les', 'et', 'est', 'des', 'une', 'du', 'pour', 'avec', 'dans', 'sur', 'pas', 'au', 'il', 'elle', 'né', 'née', 'monsieur', 'madame'],
+    letters: /[\u00E7\u00E8\u00EA\u00EB\u00EE\u00EF\u00F4\u0153\u00F9]/gi,
+  },
+  es: {
+    language: 'Spanish',
+    hint: 'DNI and NIE numbers, números de la Seguridad Social, Spanish phone numbers and five-digit códigos postales.',
+    stopwords: ['el', 'los', 'las', 'y', 'es', 'una', 'del', 'con', 'para', 'por', 'su', 'está', 'nació', 'señor', 'señora'],
+    letters: /[\u00F1\u00BF\u00A1\u00E1\u00ED\u00F3\u00FA]/gi,
+  },
+  ja: {
+    language: 'Japanese',
+    hint: 'My Number (個人番号), names written in kanji or kana, Japanese addresses with 〒 postal codes and phone numbers.',
+    stopwords: [],
+    // Kana and kanji
+    letters: /[\u3040-\u30FF\u4E00-\u9FFF]/g,
+  },
+};
+
+export interface LocaleDetection {
+  locale: Locale;
+  // Share of the language signals that point to it, from 0 to 1 (0 when there were none)
+  confidence: number;
+}
+
+// Detection only needs the start of a document
+const SAMPLE_CHARS = 5_000;
+
+export function detectLocale(text: string): LocaleDetection {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const words = sample.toLowerCase().match(/[a-z\u00DF-\u00FF\u0153]+/g) ?? [];
+
+  // Kana and kanji make up most of a Japanese text, even one with Latin names or codes
+  const cjk = (sample.match(LOCALES.ja.letters!) ?? []).length;
+  if (cjk > 0 && cjk >= words.length) return { locale: 'ja', confidence: Math.round((cjk / (cjk + words.length)) * 100) / 100 };
+
+  const scores = {} as Record<Locale, number>;
+  let total = 0;
+  localeSchema.options.forEach(locale => {
+    const info = LOCALES[locale];
+    const hits = words.filter(word => info.stopwords.indexOf(word) !== -1).length
+      + (info.letters ? (sample.match(info.letters) ?? []).length : 0);
+    scores[locale] = hits;
+    total += hits;
+  });
+  if (total === 0) return { locale: DEFAULT_LOCALE, confidence: 0 };
+
+  const best = localeSchema.options.reduce((best, locale) => (scores[locale] > scores[best] ? locale : best), DEFAULT_LOCALE);
+  return { locale: best, confidence: Math.round((scores[best] / total) * 100) / 100 };
+}
+
+// The caller's locale, or the detected one for 'auto' and when none was given
+export function resolveLocale(requested: Locale | 'auto' | undefined, text: string): Locale {
+  return requested && requested !== 'auto' ? requested : detectLocale(text).locale;
+}
+
+// Added to extraction prompts: entities must come back in the input's language and script
+export function localeInstructions(locale: Locale): string {
+  const { language, hint } = LOCALES[locale];
+  return `The text is written in ${language}. Also look for ${hint} ` +
+    `Copy every entity exactly as it is written in the ${language} input, without translating, transliterating or ` +
+    'normalizing it; entity types stay in English.';
+}
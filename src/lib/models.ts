@@ -1,204 +1,369 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { PROVIDERS, PROVIDER_IDS, ModelProvider, ProviderInfo, ProviderKind } from './providers';
+import {
+  AdapterResponse,
+  AdapterSettings,
+  ChatMessage,
+  FunctionTool,
+  ProviderAdapter,
+  ProviderCapabilities,
+  TextStreamHandler,
+  ToolCallRequest,
+  ToolChoice,
+  TokenUsage,
+  estimateTextTokens,
+  estimateTokens,
+} from './adapters/types';
+import { OpenAIAdapter } from './adapters/openai';
+import { GeminiAdapter } from './adapters/gemini';
+import { AnthropicAdapter } from './adapters/anthropic';
+import { MockAdapter } from './adapters/mock';
+import {
+  CircuitBreaker,
+  CircuitState,
+  RetryOptions,
+  abortReason,
+  linkedAbort,
+  throwIfAborted,
+  withRetry,
+  withTimeout,
+} from './resilience';
 
-export type ModelProvider = 'openai' | 'gemini';
+export type { ModelProvider } from './providers';
+export type { ChatMessage, FunctionTool, ToolCallRequest, ToolChoice, TokenUsage } from './adapters/types';
+
+const DEFAULT_TEMPERATURE = 0.1;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// One entry per provider kind: how to build its adapter and when it counts as configured.
+// Adding a provider means adding a registry entry in ./providers and, for a new kind, a line here.
+const ADAPTERS: Record<ProviderKind, {
+  create: (settings: AdapterSettings) => ProviderAdapter;
+  isConfigured: (settings: AdapterSettings) => boolean;
+}> = {
+  openai: { create: s => new OpenAIAdapter(s), isConfigured: s => !!s.apiKey },
+  // OpenAI-compatible servers often need no key, but always need an endpoint
+  'openai-compatible': { create: s => new OpenAIAdapter(s), isConfigured: s => !!s.baseUrl },
+  gemini: { create: s => new GeminiAdapter(s), isConfigured: s => !!s.apiKey },
+  anthropic: { create: s => new AnthropicAdapter(s), isConfigured: s => !!s.apiKey },
+  // Never on by accident: must be enabled explicitly
+  mock: { create: s => new MockAdapter(s), isConfigured: s => s.options.enabled === true },
+};
+
+// MODEL_CONFIG_FILE (JSON or YAML). API keys stay in the environment.
+const providerFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  baseUrl: z.string().url().optional(),
+  maxRetries: z.number().int().min(0).optional(),
+}).passthrough();
+
+const modelConfigFileSchema = z.object({
+  defaultProvider: z.string().optional(),
+  // Providers to try, in order, when the requested one fails
+  fallbackChain: z.array(z.string()).optional(),
+  providers: z.record(providerFileSchema).default({}),
+});
+
+type ModelConfigFile = z.infer<typeof modelConfigFileSchema>;
+
+function loadConfigFile(): ModelConfigFile {
+  const file = process.env.MODEL_CONFIG_FILE;
+  if (!file) return { providers: {} };
+
+  const raw = fs.readFileSync(path.resolve(file), 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  const parsed = modelConfigFileSchema.safeParse(ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid model config file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) throw new Error(`${name} must be a number`);
+  return parsed;
+}
+
+// Environment (<ID>_MODEL, <ID>_TEMPERATURE, <ID>_TIMEOUT_MS, <ID>_BASE_URL, <ID>_API_KEY)
+// overrides the config file, which overrides the registry defaults
+function resolveSettings(provider: ModelProvider, file: ModelConfigFile): AdapterSettings {
+  const prefix = provider.toUpperCase();
+  const fromFile = file.providers[provider] ?? {};
+  const enabled = process.env[`${prefix}_ENABLED`];
+  const response = process.env[`${prefix}_RESPONSE`];
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || fromFile.model || PROVIDERS[provider].defaultModel,
+    temperature: envNumber(`${prefix}_TEMPERATURE`) ?? fromFile.temperature ?? DEFAULT_TEMPERATURE,
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`) ?? fromFile.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    apiKey: process.env[`${prefix}_API_KEY`],
+    baseUrl: process.env[`${prefix}_BASE_URL`] || fromFile.baseUrl,
+    options: {
+      ...fromFile,
+      ...(enabled ? { enabled: enabled === 'true' } : {}),
+      ...(response ? { response } : {}),
+    },
+  };
+}
+
+// MODEL_FALLBACK_CHAIN=gemini,openai (or "none"); otherwise every available provider in registry order
+function resolveFallbackChain(file: ModelConfigFile): string[] | undefined {
+  const env = process.env.MODEL_FALLBACK_CHAIN;
+  if (env === 'none') return [];
+  if (env) return env.split(',').map(id => id.trim()).filter(Boolean);
+  return file.fallbackChain;
+}
 
 export interface ModelConfig {
   provider: ModelProvider;
   model: string;
-  apiKey: string;
+  temperature: number;
+  timeoutMs: number;
+  maxRetries: number;
+  local: boolean;
+}
+
+export interface ModelUsage extends TokenUsage {
+  // Counted locally because the provider did not report usage
+  estimated: boolean;
+}
+
+// Output of a model call plus the provider that actually produced it (after any fallback)
+export interface ModelResult<T> {
+  output: T;
+  provider: ModelProvider;
+  model: string;
+  usage: ModelUsage;
+}
+
+export interface ModelCallOptions {
+  // Cancels the call, including retries and fallbacks that have not started yet
+  signal?: AbortSignal;
+  // Provider scope of the caller's API key ('*' allows any); providers outside it are never called
+  allowedProviders?: string[];
+}
+
+export function isProviderInScope(scope: string[] | undefined, provider: string): boolean {
+  return !scope || scope.indexOf('*') !== -1 || scope.indexOf(provider) !== -1;
 }
 
 export class ModelManager {
-  private openai: OpenAI | null = null;
-  private gemini: GoogleGenerativeAI | null = null;
+  private configs: Partial<Record<ModelProvider, ModelConfig>> = {};
+  private adapters: Partial<Record<ModelProvider, ProviderAdapter>> = {};
+  private breakers: Partial<Record<ModelProvider, CircuitBreaker>> = {};
+  private preferredProvider?: string;
+  private fallbackChain?: string[];
+  private backoff = {
+    baseDelayMs: envNumber('MODEL_RETRY_BASE_MS') ?? 500,
+    maxDelayMs: envNumber('MODEL_RETRY_MAX_MS') ?? 8_000,
+  };
+  private breakerOptions = {
+    failureThreshold: envNumber('CIRCUIT_BREAKER_THRESHOLD') ?? 5,
+    cooldownMs: envNumber('CIRCUIT_BREAKER_COOLDOWN_MS') ?? 30_000,
+  };
 
   constructor() {
-    // Initialize OpenAI if API key is available
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
-    }
+    const file = loadConfigFile();
+    this.preferredProvider = process.env.DEFAULT_MODEL_PROVIDER || file.defaultProvider;
+    this.fallbackChain = resolveFallbackChain(file);
 
-    // Initialize Gemini if API key is available
-    if (process.env.GEMINI_API_KEY) {
-      this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    }
+    // Initialize every provider that is configured in the environment or config file
+    PROVIDER_IDS.forEach(provider => {
+      const definition = PROVIDERS[provider];
+      const settings = resolveSettings(provider, file);
+      const adapter = ADAPTERS[definition.kind];
+
+      // enabled: false in the config file switches a provider off even if a key is set
+      const configured = adapter.isConfigured(settings) && settings.options.enabled !== false;
+      // LOCAL_PROVIDERS_ONLY keeps sensitive text inside our own network
+      const allowed = definition.local || process.env.LOCAL_PROVIDERS_ONLY !== 'true';
+      if (!configured || !allowed) return;
+
+      this.adapters[provider] = adapter.create(settings);
+      this.breakers[provider] = new CircuitBreaker(provider, this.breakerOptions);
+      this.configs[provider] = {
+        provider,
+        model: settings.model,
+        temperature: settings.temperature,
+        timeoutMs: settings.timeoutMs,
+        maxRetries: envNumber(`${provider.toUpperCase()}_MAX_RETRIES`) ?? file.providers[provider]?.maxRetries ?? DEFAULT_MAX_RETRIES,
+        local: definition.local,
+      };
+    });
   }
 
   getAvailableProviders(): ModelProvider[] {
-    const providers: ModelProvider[] = [];
-    if (this.openai) providers.push('openai');
-    if (this.gemini) providers.push('gemini');
-    return providers;
+    return PROVIDER_IDS.filter(provider => !!this.configs[provider]);
   }
 
   getDefaultProvider(): ModelProvider {
     const available = this.getAvailableProviders();
+    const preferred = this.preferredProvider as ModelProvider | undefined;
+    if (preferred && available.indexOf(preferred) !== -1) return preferred;
     return available[0] || 'openai';
   }
 
+  describeProviders(): ProviderInfo[] {
+    return PROVIDER_IDS.map(provider => ({
+      id: provider,
+      label: PROVIDERS[provider].label,
+      model: this.configs[provider]?.model ?? PROVIDERS[provider].defaultModel,
+      local: PROVIDERS[provider].local,
+      available: !!this.configs[provider],
+    }));
+  }
+
   getModelConfig(provider: ModelProvider): ModelConfig {
-    switch (provider) {
-      case 'openai':
-        if (!this.openai) throw new Error('OpenAI not configured');
-        return {
-          provider: 'openai',
-          model: 'gpt-3.5-turbo',
-          apiKey: process.env.OPENAI_API_KEY!,
-        };
-      case 'gemini':
-        if (!this.gemini) throw new Error('Gemini not configured');
-        return {
-          provider: 'gemini',
-          model: 'gemini-1.5-flash',
-          apiKey: process.env.GEMINI_API_KEY!,
-        };
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
+    const definition = PROVIDERS[provider];
+    if (!definition) throw new Error(`Unknown provider: ${provider}`);
+
+    const config = this.configs[provider];
+    if (!config) throw new Error(`${definition.label} not configured`);
+    return config;
+  }
+
+  getCapabilities(provider: ModelProvider): ProviderCapabilities {
+    return this.getAdapter(provider).capabilities;
+  }
+
+  getCircuitState(provider: ModelProvider): CircuitState {
+    this.getModelConfig(provider);
+    return this.breakers[provider]!.getState();
+  }
+
+  private getAdapter(provider: ModelProvider): ProviderAdapter {
+    this.getModelConfig(provider);
+    return this.adapters[provider]!;
+  }
+
+  // The requested provider first, then the fallback chain. Mock is never an implicit fallback,
+  // and a request for a local provider never falls over to a cloud one. Providers outside
+  // `allowedProviders` are left out, the requested one included.
+  getFallbackChain(provider: ModelProvider, allowedProviders?: string[]): ModelProvider[] {
+    this.getModelConfig(provider);
+    const chain = this.fallbackChain
+      ?? this.getAvailableProviders().filter(candidate => PROVIDERS[candidate].kind !== 'mock');
+
+    const fallbacks = chain.filter(
+      candidate => candidate !== provider && !!this.configs[candidate as ModelProvider]
+    ) as ModelProvider[];
+    return [provider]
+      .concat(PROVIDERS[provider].local ? fallbacks.filter(candidate => PROVIDERS[candidate].local) : fallbacks)
+      .filter(candidate => isProviderInScope(allowedProviders, candidate));
+  }
+
+  // Each provider gets its own retries (transient errors only), timeout and circuit breaker
+  // before the call moves on to the next provider in the chain. A timed-out attempt is
+  // aborted; an aborted `signal` stops the call without trying other providers.
+  private async run<T>(
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    call: (adapter: ProviderAdapter, signal: AbortSignal) => Promise<AdapterResponse<T>>,
+    options: ModelCallOptions
+  ): Promise<ModelResult<T>> {
+    const { signal } = options;
+    const errors: string[] = [];
+    const chain = this.getFallbackChain(provider, options.allowedProviders);
+    if (chain.length === 0) throw new Error(`Provider '${provider}' is outside the caller's provider scope`);
+
+    for (const candidate of chain) {
+      throwIfAborted(signal);
+      const config = this.configs[candidate]!;
+      const retry: RetryOptions = { maxRetries: config.maxRetries, ...this.backoff };
+
+      try {
+        const response = await this.breakers[candidate]!.execute(() =>
+          withRetry(
+            () => {
+              // Releasing aborts the provider request if the timeout gave up on it
+              const attempt = linkedAbort(signal);
+              return withTimeout(call(this.adapters[candidate]!, attempt.signal), config.timeoutMs).finally(attempt.release);
+            },
+            retry,
+            (error, attempt, delayMs) =>
+              console.warn(`[Models] ${candidate} failed (${error.message}); retry ${attempt}/${config.maxRetries} in ${delayMs}ms`),
+            signal
+          )
+        );
+        if (candidate !== provider) console.warn(`[Models] Served by fallback provider ${candidate}`);
+        const usage: ModelUsage = response.usage
+          ? { ...response.usage, estimated: false }
+          : {
+              inputTokens: estimateTokens(messages),
+              outputTokens: estimateTextTokens(typeof response.output === 'string' ? response.output : JSON.stringify(response.output)),
+              estimated: true,
+            };
+        return { output: response.output, provider: candidate, model: config.model, usage };
+      } catch (error: any) {
+        if (signal?.aborted) throw abortReason(signal);
+        console.warn(`[Models] ${candidate} unavailable: ${error.message}`);
+        errors.push(`${candidate}: ${error.message}`);
+      }
     }
+
+    throw new Error(`All model providers failed (${errors.join('; ')})`);
   }
 
   async generateText(
     provider: ModelProvider,
-    messages: Array<{ role: string; content: string }>,
-    systemPrompt?: string
-  ): Promise<string> {
-    const fullMessages = systemPrompt 
+    messages: ChatMessage[],
+    systemPrompt?: string,
+    options: ModelCallOptions = {}
+  ): Promise<ModelResult<string>> {
+    const fullMessages: ChatMessage[] = systemPrompt
       ? [{ role: 'system', content: systemPrompt }, ...messages]
       : messages;
+    return this.run(provider, fullMessages, (adapter, signal) => adapter.generateText(fullMessages, signal), options);
+  }
 
-    switch (provider) {
-      case 'openai':
-        if (!this.openai) throw new Error('OpenAI not configured');
-        const openaiResponse = await this.openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: fullMessages as any,
-          temperature: 0.1,
-        });
-        return openaiResponse.choices[0]?.message?.content || '';
-
-      case 'gemini':
-        if (!this.gemini) throw new Error('Gemini not configured');
-        const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' });
-        
-        // Convert messages to Gemini format
-        const geminiPrompt = fullMessages
-          .map(msg => `${msg.role === 'system' ? 'System' : 'User'}: ${msg.content}`)
-          .join('\n\n');
-        
-        const geminiResponse = await model.generateContent(geminiPrompt);
-        return geminiResponse.response.text();
-
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
-    }
+  // Streams from providers that support it; the others report their whole output once. Each
+  // retry or fallback starts over, so `onText` can receive a shorter text than before.
+  async streamText(
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    systemPrompt: string | undefined,
+    onText: TextStreamHandler,
+    options: ModelCallOptions = {}
+  ): Promise<ModelResult<string>> {
+    const fullMessages: ChatMessage[] = systemPrompt
+      ? [{ role: 'system', content: systemPrompt }, ...messages]
+      : messages;
+    return this.run(provider, fullMessages, async (adapter, signal) => {
+      if (adapter.streamText) return adapter.streamText(fullMessages, onText, signal);
+      const response = await adapter.generateText(fullMessages, signal);
+      onText(response.output);
+      return response;
+    }, options);
   }
 
+  // Native function calling on every provider; returns the calls the model made
   async generateWithTools(
     provider: ModelProvider,
-    messages: Array<{ role: string; content: string }>,
-    tools: any[],
-    toolChoice: string = 'required'
-  ): Promise<any> {
-    switch (provider) {
-      case 'openai':
-        if (!this.openai) throw new Error('OpenAI not configured');
-        return await this.openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: messages as any,
-          tools,
-          tool_choice: toolChoice,
-          temperature: 0.1,
-        });
-
-      case 'gemini':
-        // Gemini doesn't support function calling in the same way
-        // We'll use a different approach for Gemini
-        if (!this.gemini) throw new Error('Gemini not configured');
-        const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' });
-        
-        // Create a prompt that includes tool descriptions
-        const toolDescriptions = tools.map(tool => 
-          `- ${tool.function.name}: ${tool.function.description}`
-        ).join('\n');
-        
-        const userMessage = messages.find(m => m.role === 'user')?.content || '';
-        const systemMessage = messages.find(m => m.role === 'system')?.content || '';
-        
-        const prompt = `${systemMessage}\n\n${userMessage}\n\nAvailable tools:\n${toolDescriptions}\n\nPlease respond with ONLY the tool name and parameters in this exact JSON format: {"tool": "tool_name", "arguments": {"text": "user_text"}}`;
-        
-        const response = await model.generateContent(prompt);
-        const text = response.response.text();
-        
-        // Parse the response to extract tool call information
-        try {
-          // Look for JSON in the response (handle markdown code blocks)
-          let jsonMatch = text.match(/```json\s*(\{.*?\})\s*```/s);
-          if (!jsonMatch) {
-            // Fallback: look for plain JSON - find complete JSON object
-            const jsonStart = text.indexOf('{');
-            if (jsonStart !== -1) {
-              let braceCount = 0;
-              let jsonEnd = jsonStart;
-              for (let i = jsonStart; i < text.length; i++) {
-                if (text[i] === '{') braceCount++;
-                if (text[i] === '}') braceCount--;
-                if (braceCount === 0) {
-                  jsonEnd = i;
-                  break;
-                }
-              }
-              if (braceCount === 0) {
-                jsonMatch = [text.substring(jsonStart, jsonEnd + 1)];
-              }
-            }
-          }
-          
-          if (jsonMatch) {
-            const jsonStr = jsonMatch[1] || jsonMatch[0];
-            const parsed = JSON.parse(jsonStr);
-            return {
-              choices: [{
-                message: {
-                  tool_calls: [{
-                    function: {
-                      name: parsed.tool,
-                      arguments: JSON.stringify(parsed.arguments || {})
-                    }
-                  }]
-                }
-              }]
-            };
-          }
-          
-          // Fallback: try to extract tool name from text
-          const toolMatch = text.match(/(anonymize_pii|redact_financial|redact_medical|general_sanitize)/);
-          if (toolMatch) {
-            return {
-              choices: [{
-                message: {
-                  tool_calls: [{
-                    function: {
-                      name: toolMatch[1],
-                      arguments: JSON.stringify({ text: userMessage })
-                    }
-                  }]
-                }
-              }]
-            };
-          }
-        } catch (e) {
-          console.error('Gemini response parsing error:', e);
-          console.error('Gemini response text:', text);
-        }
-        
-        throw new Error(`Failed to parse Gemini response: ${text}`);
-
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
-    }
+    messages: ChatMessage[],
+    tools: FunctionTool[],
+    toolChoice: ToolChoice = 'required',
+    options: ModelCallOptions = {}
+  ): Promise<ModelResult<ToolCallRequest[]>> {
+    return this.run(
+      provider,
+      messages,
+      (adapter, signal) => adapter.generateWithTools(messages, tools, toolChoice, signal),
+      options
+    );
+  }
+
+  async countTokens(provider: ModelProvider, messages: ChatMessage[]): Promise<number> {
+    return withTimeout(this.getAdapter(provider).countTokens(messages), this.getModelConfig(provider).timeoutMs);
   }
 }
 
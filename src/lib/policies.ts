@@ -0,0 +1,222 @@
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { DetectorMatch } from './detectors';
+import { PlaceholderFn } from './redaction';
+import { getOrCreateSecret } from './storage';
+import { synthesizeValue } from './synthesize';
+
+// Named redaction policies: what to do with each entity type
+
+export const policyRuleSchema = z.discriminatedUnion('action', [
+  // ****1234: hide all letters/digits except the last few, keep separators
+  z.object({
+    action: z.literal('mask'),
+    visibleChars: z.number().int().min(0).default(4),
+    maskChar: z.string().length(1).default('*'),
+  }),
+  // [EMAIL]: typed placeholder; {type} in a custom template is replaced by the entity type
+  z.object({ action: z.literal('replace'), placeholder: z.string().optional() }),
+  // [EMAIL:3f2a9c1b]: salted HMAC, stable across calls so records can still be joined
+  z.object({ action: z.literal('hash'), length: z.number().int().min(4).max(64).default(8) }),
+  // Date of birth -> year, address -> city, IP -> subnet, etc.
+  z.object({ action: z.literal('generalize') }),
+  // Fake-but-realistic value of the same kind
+  z.object({ action: z.literal('synthesize') }),
+  z.object({ action: z.literal('keep') }),
+]);
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+export type PolicyAction = PolicyRule['action'];
+
+export const policySchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Policy names may only contain letters, digits, _ and -'),
+  description: z.string().optional(),
+  defaultRule: policyRuleSchema.default({ action: 'replace' }),
+  rules: z.record(policyRuleSchema).default({}),
+});
+
+export type RedactionPolicy = z.infer<typeof policySchema>;
+
+const policyFileSchema = z.union([
+  z.object({ policies: z.array(policySchema) }),
+  z.array(policySchema),
+  policySchema,
+]);
+
+export const DEFAULT_POLICY = 'default';
+
+const builtinPolicies: RedactionPolicy[] = [
+  {
+    name: DEFAULT_POLICY,
+    description: 'Replace every entity with a typed placeholder such as [EMAIL]',
+    defaultRule: { action: 'replace' },
+    rules: {},
+  },
+  {
+    name: 'masked',
+    description: 'Mask card, account and phone numbers (****1234); placeholders for everything else',
+    defaultRule: { action: 'replace' },
+    rules: {
+      CREDIT_CARD: { action: 'mask', visibleChars: 4, maskChar: '*' },
+      IBAN: { action: 'mask', visibleChars: 4, maskChar: '*' },
+      SORT_CODE: { action: 'mask', visibleChars: 2, maskChar: '*' },
+      PHONE: { action: 'mask', visibleChars: 4, maskChar: '*' },
+    },
+  },
+  {
+    name: 'analytics',
+    description: 'Hash identifiers so records can still be joined; generalize dates, addresses and IPs',
+    defaultRule: { action: 'hash', length: 8 },
+    rules: {
+      DATE_OF_BIRTH: { action: 'generalize' },
+      ADDRESS: { action: 'generalize' },
+      IP_ADDRESS: { action: 'generalize' },
+    },
+  },
+  {
+    name: 'synthetic',
+    description: 'Swap entities for realistic fake values (test data, demos)',
+    defaultRule: { action: 'synthesize' },
+    rules: {},
+  },
+];
+
+// Coarser but still useful version of a value; null when no generalization applies
+export function generalizeValue(entityType: string, value: string): string | null {
+  switch (entityType) {
+    case 'DATE_OF_BIRTH':
+    case 'DATE': {
+      const year = value.match(/\b(1[89]\d{2}|20\d{2})\b/);
+      return year ? year[1] : null;
+    }
+    case 'ADDRESS': {
+      // "123 Main St, New York, NY 10001" -> "New York"
+      const parts = value.split(',').map(part => part.trim()).filter(Boolean);
+      return parts.length >= 2 ? parts[1] : null;
+    }
+    case 'EMAIL': {
+      const at = value.lastIndexOf('@');
+      return at > 0 ? `*@${value.slice(at + 1)}` : null;
+    }
+    case 'IP_ADDRESS': {
+      const octets = value.split('.');
+      return octets.length === 4 ? `${octets.slice(0, 3).join('.')}.0/24` : null;
+    }
+    case 'AGE': {
+      const age = parseInt(value, 10);
+      if (isNaN(age)) return null;
+      const decade = Math.floor(age / 10) * 10;
+      return `${decade}-${decade + 9}`;
+    }
+    case 'POSTCODE':
+    case 'ZIP_CODE':
+      return value.length > 3 ? `${value.slice(0, 3)}…` : null;
+    default:
+      return null;
+  }
+}
+
+export function maskValue(value: string, visibleChars: number, maskChar: string): string {
+  const alnumPositions: number[] = [];
+  value.split('').forEach((char, i) => {
+    if (/[A-Za-z0-9]/.test(char)) alnumPositions.push(i);
+  });
+  const hidden = alnumPositions.slice(0, Math.max(0, alnumPositions.length - visibleChars));
+  const chars = value.split('');
+  hidden.forEach(i => {
+    chars[i] = maskChar;
+  });
+  return chars.join('');
+}
+
+export function resolveRule(policy: RedactionPolicy, entityType: string): PolicyRule {
+  return policy.rules[entityType] ?? policy.defaultRule;
+}
+
+// Builds the replacement function for a policy; "keep" matches should be filtered out first
+export async function createPolicyPlaceholder(policy: RedactionPolicy): Promise<PlaceholderFn> {
+  const hashKey = await getOrCreateSecret('POLICY_HASH_SECRET', 'policy-hash.key');
+  const digest = (match: DetectorMatch) =>
+    createHmac('sha256', hashKey).update(`${match.entityType}:${match.value}`).digest();
+
+  return match => {
+    const rule = resolveRule(policy, match.entityType);
+    const typed = `[${match.entityType}]`;
+
+    switch (rule.action) {
+      case 'mask':
+        return maskValue(match.value, rule.visibleChars, rule.maskChar);
+      case 'replace':
+        return rule.placeholder ? rule.placeholder.replace(/\{type\}/g, match.entityType) : typed;
+      case 'hash':
+        return `[${match.entityType}:${digest(match).toString('hex').slice(0, rule.length)}]`;
+      case 'generalize':
+        return generalizeValue(match.entityType, match.value) ?? typed;
+      case 'synthesize':
+        return synthesizeValue(match.entityType, match.value, digest(match)) ?? typed;
+      case 'keep':
+        return match.value;
+    }
+  };
+}
+
+export class PolicyManager {
+  private policies = new Map<string, RedactionPolicy>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(policies: RedactionPolicy[] = []) {
+    policies.forEach(policy => this.policies.set(policy.name, policy));
+  }
+
+  // Policies from a JSON or YAML file override built-ins with the same name
+  async loadFile(file: string): Promise<RedactionPolicy[]> {
+    const raw = await fs.readFile(file, 'utf8');
+    const ext = path.extname(file).toLowerCase();
+    const data = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+    const parsed = policyFileSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(`Invalid policy file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+
+    const policies = Array.isArray(parsed.data)
+      ? parsed.data
+      : 'policies' in parsed.data
+        ? parsed.data.policies
+        : [parsed.data];
+    policies.forEach(policy => this.policies.set(policy.name, policy));
+    return policies;
+  }
+
+  // REDACTION_POLICIES_FILE is read lazily on first use
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      const file = process.env.REDACTION_POLICIES_FILE;
+      this.loaded = file
+        ? this.loadFile(path.resolve(file)).then(policies =>
+            console.log(`[Policies] Loaded ${policies.length} policies from ${file}`)
+          )
+        : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  async list(): Promise<RedactionPolicy[]> {
+    await this.ensureLoaded();
+    const policies: RedactionPolicy[] = [];
+    this.policies.forEach(policy => policies.push(policy));
+    return policies;
+  }
+
+  async get(name: string = DEFAULT_POLICY): Promise<RedactionPolicy> {
+    await this.ensureLoaded();
+    const policy = this.policies.get(name);
+    if (!policy) throw new Error(`Unknown redaction policy '${name}'`);
+    return policy;
+  }
+}
+
+export const policyManager = new PolicyManager(builtinPolicies);
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// Registry of model providers. Safe to import from client components:
+// it holds no SDKs or secrets, only what the UI and schemas need.
+
+export type ProviderKind = 'openai' | 'gemini' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ProviderDefinition {
+  label: string;
+  kind: ProviderKind;
+  defaultModel: string;
+  // Runs inside our own network (text never goes to a third-party cloud)
+  local: boolean;
+}
+
+export const PROVIDERS = {
+  openai: { label: 'OpenAI', kind: 'openai', defaultModel: 'gpt-3.5-turbo', local: false },
+  gemini: { label: 'Google Gemini', kind: 'gemini', defaultModel: 'gemini-1.5-flash', local: false },
+  anthropic: { label: 'Anthropic Claude', kind: 'anthropic', defaultModel: 'claude-3-5-haiku-latest', local: false },
+  // Ollama, vLLM, llama.cpp server or any other OpenAI-compatible endpoint
+  local: { label: 'Local (OpenAI-compatible)', kind: 'openai-compatible', defaultModel: 'llama3.1', local: true },
+  // Deterministic, offline; for tests and demos
+  mock: { label: 'Mock (deterministic)', kind: 'mock', defaultModel: 'mock-1', local: true },
+} satisfies Record<string, ProviderDefinition>;
+
+export type ModelProvider = keyof typeof PROVIDERS;
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as [ModelProvider, ...ModelProvider[]];
+
+export const modelProviderSchema = z.enum(PROVIDER_IDS);
+
+// What the server reports about each provider (no secrets)
+export interface ProviderInfo {
+  id: ModelProvider;
+  label: string;
+  model: string;
+  local: boolean;
+  available: boolean;
+}
@@ -0,0 +1,65 @@
+import { DetectorMatch } from './detectors';
+import type { Finding } from '../mcp/types';
+
+export interface RedactionResult {
+  sanitizedText: string;
+  findings: Finding[];
+}
+
+export type PlaceholderFn = (match: DetectorMatch) => string;
+
+export const typedPlaceholder: PlaceholderFn = match => `[${match.entityType}]`;
+
+// Rewrite the text, replacing each non-overlapping match with its placeholder
+export function applyRedactions(
+  text: string,
+  matches: DetectorMatch[],
+  placeholder: PlaceholderFn = typedPlaceholder
+): RedactionResult {
+  const sorted = matches.slice().sort((a, b) => a.start - b.start);
+  const findings: Finding[] = [];
+  let sanitizedText = '';
+  let cursor = 0;
+
+  for (const match of sorted) {
+    const replacement = placeholder(match);
+    sanitizedText += text.slice(cursor, match.start) + replacement;
+    cursor = match.end;
+    findings.push({
+      entityType: match.entityType,
+      start: match.start,
+      end: match.end,
+      replacement,
+      source: match.detector,
+      confidence: match.confidence,
+    });
+  }
+
+  return { sanitizedText: sanitizedText + text.slice(cursor), findings };
+}
+
+// Maps an offset in the redacted text back to the original. Inside a placeholder it maps to the
+// entity's start, or to its end for `side: 'end'` (the end of a span)
+export function sourceOffset(findings: Finding[], offset: number, side: 'start' | 'end' = 'start'): number {
+  let shift = 0;
+  for (const finding of findings) {
+    const redactedStart = finding.start + shift;
+    if (offset <= redactedStart) break;
+    if (offset < redactedStart + finding.replacement.length) return side === 'start' ? finding.start : finding.end;
+    shift += finding.replacement.length - (finding.end - finding.start);
+  }
+  return offset - shift;
+}
+
+// Findings of two redactions run one after the other, with offsets into the first one's input:
+// `later` (offsets into the text `earlier` produced) is mapped back, and an earlier finding
+// that a later one covers is dropped, since its placeholder is gone from the result
+export function composeFindings(earlier: Finding[], later: Finding[]): Finding[] {
+  const mapped = later.map(finding => ({
+    ...finding,
+    start: sourceOffset(earlier, finding.start),
+    end: sourceOffset(earlier, finding.end, 'end'),
+  }));
+  const kept = earlier.filter(finding => !mapped.some(cover => cover.start <= finding.start && cover.end >= finding.end));
+  return kept.concat(mapped).sort((a, b) => a.start - b.start);
+}
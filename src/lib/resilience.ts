@@ -0,0 +1,177 @@
+// Retries, timeouts and circuit breaking for calls to model providers
+
+export class TimeoutError extends Error {
+  constructor(readonly ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit open for ${name}; skipping until it cools down`);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+// Why an aborted signal was aborted: a TimeoutError for timeouts, otherwise an AbortError
+export function abortReason(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) return signal.reason;
+  const error = new Error(typeof signal.reason === 'string' ? signal.reason : 'The operation was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortReason(signal);
+}
+
+export interface LinkedAbort {
+  signal: AbortSignal;
+  abort: (reason?: any) => void;
+  // Drops the timer and listener and aborts whatever is still using the signal
+  release: () => void;
+}
+
+// Aborts when `signal` does, when `abort` is called or after `timeoutMs`
+export function linkedAbort(signal?: AbortSignal, timeoutMs?: number): LinkedAbort {
+  const controller = new AbortController();
+  const forward = () => controller.abort(signal!.reason);
+  if (signal?.aborted) forward();
+  else signal?.addEventListener('abort', forward);
+  const timer = timeoutMs ? setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs) : undefined;
+  return {
+    signal: controller.signal,
+    abort: reason => controller.abort(reason),
+    release: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+      controller.abort();
+    },
+  };
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// Rate limits, server errors, timeouts and dropped connections are worth retrying; bad requests are not
+export function isTransientError(error: any): boolean {
+  if (error instanceof TimeoutError) return true;
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  if (typeof status === 'number') return status === 408 || status === 409 || status === 429 || status >= 500;
+
+  const code = error?.code ?? error?.cause?.code;
+  if (code && TRANSIENT_NETWORK_CODES.indexOf(code) !== -1) return true;
+  const name = error?.name ?? '';
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError' || /fetch failed|network|socket hang up/i.test(error?.message ?? '');
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// "Full jitter" exponential backoff: random delay in [0, min(max, base * 2^attempt)]
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.floor(Math.random() * ceiling);
+}
+
+// Rejects with the abort reason as soon as `signal` is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const wake = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', wake);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', wake);
+  });
+}
+
+// Stops retrying once `signal` is aborted
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (error: any, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= options.maxRetries || !isTransientError(error)) throw error;
+      const delay = backoffDelay(attempt, options);
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting a trial call through
+  cooldownMs: number;
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private name: string, private options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    if (this.failures < this.options.failureThreshold) return 'closed';
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    // Half-open lets exactly one trial call through; the rest are rejected until it settles
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    this.trialInFlight = state === 'half-open';
+    try {
+      const result = await fn();
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      // Only outages count against the provider, not requests it rightly rejected
+      if (isTransientError(error)) {
+        this.failures++;
+        if (this.failures >= this.options.failureThreshold) this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { detectorEngine } from './detectors';
+import { Locale, detectLocale } from './locales';
+
+// Local tool routing: keyword matching on the user's request plus a detector scan of the text.
+// The flow only asks the model to plan the pipeline when this is not confident enough.
+
+export const routingDecisionSchema = z.object({
+  // Tools to run, in order
+  tools: z.array(z.string()),
+  // caller: named by the caller; rules: this classifier; model: planned by the LLM
+  source: z.enum(['caller', 'rules', 'model']),
+  // How sure the local classifier was, from 0 to 1 (1 for caller)
+  confidence: z.number(),
+  reasons: z.array(z.string()),
+});
+
+export type RoutingDecision = z.infer<typeof routingDecisionSchema>;
+
+interface Route {
+  tool: string;
+  // Words in the request that ask for this tool, in any supported language
+  intent: RegExp;
+  // Detector findings in the text that call for it
+  entityTypes: string[];
+  // Words in the text that call for it, for data the detectors do not cover
+  cues?: RegExp;
+}
+
+// In pipeline order when the request does not imply one
+const ROUTES: Route[] = [
+  {
+    tool: 'redact_medical',
+    intent: /\b(?:medical|health|patients?|clinical|diagnos[ie]s|medications?|prescriptions?|hipaa|phi|medizinische?|gesundheit|patienten|m\u00E9dica(?:l|ux)|m\u00E9dic[oa]s?|salud|pacientes?)\b|\bsant\u00E9|\u533B\u7642|\u60A3\u8005/i,
+    entityTypes: [],
+    cues: /\b(?:patient|diagnosed|prescribed|medical record|mrn|dosage|\d+ ?mg|diagnose|diagnosticad[oa])\b|\bdiagnostiqu\u00E9|\u8A3A\u65AD/i,
+  },
+  {
+    tool: 'redact_financial',
+    intent: /\b(?:financial|finance|bank(?:ing)?|iban|credit[ -]?cards?|card numbers?|payments?|crypto|wallets?|sort[ -]codes?|account numbers?|kreditkarten?|kontonummer|bancaires?|tarjetas?|bancari[oa]s?)\b|\u9280\u884C|\u30AF\u30EC\u30B8\u30C3\u30C8\u30AB\u30FC\u30C9/i,
+    entityTypes: ['CREDIT_CARD', 'IBAN', 'SORT_CODE', 'CRYPTO_WALLET'],
+  },
+  {
+    tool: 'anonymize_pii',
+    intent: /\b(?:pii|personal(?:ly)?|names?|e-?mails?|phones?|address(?:es)?|contacts?|anonymi[sz]e|gdpr|ssns?|social security|anonymisieren|personenbezogene?|datenschutz|dsgvo|anonymiser|donn\u00E9es personnelles|rgpd|anonimizar|datos personales)\b|\u500B\u4EBA\u60C5\u5831|\u533F\u540D\u5316/i,
+    entityTypes: ['EMAIL', 'PHONE', 'US_SSN', 'IP_ADDRESS', 'DE_TAX_ID', 'FR_NIR', 'ES_DNI', 'ES_NIE', 'JP_MY_NUMBER'],
+  },
+];
+
+const GENERAL_TOOL = 'general_sanitize';
+const GENERAL_INTENT = /\b(?:everything|all (?:sensitive|confidential|private)|any(?:thing)? sensitive|confidential|secrets?)\b/i;
+
+// The scan only needs enough of the text to see what kind of data it holds
+const SCAN_CHARS = 20_000;
+
+// ROUTING_MIN_CONFIDENCE (default 0.7): below it the model plans the pipeline; 0 never asks it, above 1 always does
+export function getRoutingThreshold(): number {
+  const value = parseFloat(process.env.ROUTING_MIN_CONFIDENCE || '');
+  return isNaN(value) ? 0.7 : value;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Decides from the request and the text alone; `text` is empty for uploaded files. The text's
+// locale (detected unless given) picks the locale-specific detectors for the scan.
+export function routeLocally(request: string, text: string, available: string[], locale?: Locale): RoutingDecision {
+  const isAvailable = (tool: string) => available.indexOf(tool) !== -1;
+
+  // A request that names tools ("use redact_medical") gets exactly those, in the order named
+  const named = available
+    .map(tool => ({ tool, index: request.search(new RegExp(`\\b${escapeRegExp(tool)}\\b`)) }))
+    .filter(match => match.index !== -1)
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.tool);
+  if (named.length) return { tools: named, source: 'rules', confidence: 1, reasons: [`request names ${named.join(', ')}`] };
+
+  const routes = ROUTES.filter(route => isAvailable(route.tool));
+  const sample = text.slice(0, SCAN_CHARS);
+  const found = detectorEngine.detect(sample, undefined, locale ?? detectLocale(sample).locale).map(match => match.entityType);
+  const evidence = (route: Route) => {
+    const types = route.entityTypes.filter(type => found.indexOf(type) !== -1);
+    const cue = route.cues ? sample.match(route.cues) : null;
+    return types.concat(cue ? [`"${cue[0]}"`] : []);
+  };
+
+  const asked = routes
+    .map(route => ({ route, index: request.search(route.intent) }))
+    .filter(match => match.index !== -1)
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.route);
+  const general = GENERAL_INTENT.test(request) && isAvailable(GENERAL_TOOL);
+
+  if (asked.length && general) {
+    return {
+      tools: [GENERAL_TOOL],
+      source: 'rules',
+      confidence: 0.5,
+      reasons: [`request asks for everything and for ${asked.map(route => route.tool).join(', ')}`],
+    };
+  }
+  if (general) return { tools: [GENERAL_TOOL], source: 'rules', confidence: 0.9, reasons: ['request asks for all sensitive data'] };
+
+  if (asked.length) {
+    const reasons = asked.map(route => {
+      const seen = evidence(route);
+      return `request asks for ${route.tool}${seen.length ? ` (text has ${seen.join(', ')})` : ''}`;
+    });
+    // Higher when the text holds what was asked for
+    const confirmed = asked.every(route => evidence(route).length > 0);
+    return { tools: asked.map(route => route.tool), source: 'rules', confidence: confirmed ? 0.95 : 0.85, reasons };
+  }
+
+  // Nothing recognisable in the request: go by what the text holds
+  const indicated = routes.filter(route => evidence(route).length > 0);
+  if (indicated.length) {
+    return {
+      tools: indicated.map(route => route.tool),
+      source: 'rules',
+      // An empty request leaves the text as the only signal; an unrecognised one may mean something else
+      confidence: request.trim() ? 0.6 : 0.75,
+      reasons: indicated.map(route => `text has ${evidence(route).join(', ')}`),
+    };
+  }
+  return {
+    tools: isAvailable(GENERAL_TOOL) ? [GENERAL_TOOL] : [],
+    source: 'rules',
+    confidence: isAvailable(GENERAL_TOOL) ? 0.3 : 0,
+    reasons: ['no request keywords or detector findings'],
+  };
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import path from 'path';
+
+// Local persistence root for vaults and other server-side state
+export const DATA_DIR = path.resolve(process.env.SANITIZE_DATA_DIR ?? '.sanitize-ai');
+
+export async function ensureDataDir(...parts: string[]): Promise<string> {
+  const dir = path.join(DATA_DIR, ...parts);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  return dir;
+}
+
+const pendingWrites = new Map<string, Promise<void>>();
+let tempCounter = 0;
+
+// Write via a temp file + rename so readers never see a partial file. Writes to the same file
+// run in the order they were made, each through its own temp file, so the last one wins.
+export function writeFileAtomic(file: string, data: string | Buffer): Promise<void> {
+  const key = path.resolve(file);
+  const previous = pendingWrites.get(key) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    const tmp = `${file}.${process.pid}.${++tempCounter}.tmp`;
+    try {
+      await fs.writeFile(tmp, data, { mode: 0o600 });
+      await fs.rename(tmp, file);
+    } catch (error) {
+      await fs.unlink(tmp).catch(() => undefined);
+      throw error;
+    }
+  });
+  const settled = write.catch(() => undefined);
+  pendingWrites.set(key, settled);
+  settled.then(() => {
+    if (pendingWrites.get(key) === settled) pendingWrites.delete(key);
+  });
+  return write;
+}
+
+export async function readFileIfExists(file: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(file);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+const secrets = new Map<string, Promise<string>>();
+
+// The env var wins; otherwise a random secret is generated once and kept in the data dir
+export function getOrCreateSecret(envVar: string, fileName: string): Promise<string> {
+  const cached = secrets.get(envVar);
+  if (cached) return cached;
+
+  const secret = (async () => {
+    const fromEnv = process.env[envVar];
+    if (fromEnv) return fromEnv;
+
+    const file = path.join(await ensureDataDir(), fileName);
+    const existing = await readFileIfExists(file);
+    if (existing) return existing.toString('utf8').trim();
+
+    const generated = randomBytes(32).toString('hex');
+    await writeFileAtomic(file, generated);
+    console.warn(`[Storage] ${envVar} not set; generated a local secret at ${file}`);
+    return generated;
+  })();
+  secrets.set(envVar, secret);
+  return secret;
+}
+
+// Files holding sensitive values (vault sessions, batch inputs) are AES-256-GCM encrypted at rest
+export interface EncryptedFile {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Secret shared by the vault and batch inputs: VAULT_KEY, else a generated <data dir>/vault.key
+export const vaultSecret = () => getOrCreateSecret('VAULT_KEY', 'vault.key');
+
+export async function encryptText(plaintext: string): Promise<EncryptedFile> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(await vaultSecret(), salt, 32);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+// Throws when the file was written with another secret or has been tampered with
+export async function decryptText(file: EncryptedFile): Promise<string> {
+  const key = scryptSync(await vaultSecret(), Buffer.from(file.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(file.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
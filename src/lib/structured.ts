@@ -0,0 +1,230 @@
+import { CsvDocument, readCsv, writeCsv } from './files/csv';
+import { JsonPath, formatPath, parseJsonOrLines } from './files/json';
+
+// Structure-aware sanitization: string values of JSON documents, JSON Lines and CSV records are
+// rewritten individually and the data is written back with the exact same shape.
+
+export type StructuredFormat = 'json' | 'csv';
+
+export interface StructuredLeaf {
+  path: JsonPath;
+  value: string;
+}
+
+export interface StructuredDocument {
+  format: StructuredFormat;
+  leaves: StructuredLeaf[];
+  // Serializes the data with one new value per leaf; throws if the result would not keep the shape
+  rebuild(values: string[]): string;
+}
+
+type PathSegment = { kind: 'key'; name: string } | { kind: 'index'; index: number } | { kind: 'wildcard' } | { kind: 'descend' };
+
+// JSONPath subset: $.a.b, $['a b'], $.items[0], $.items[*], $.*, $..email.
+// A bare name ("email") matches that key or CSV column at any depth.
+export function compileFieldPath(expression: string): PathSegment[] {
+  const source = expression.trim();
+  if (source.charAt(0) !== '$') return [{ kind: 'descend' }, { kind: 'key', name: source }];
+
+  const segments: PathSegment[] = [];
+  const token = /\.\.|\.([A-Za-z0-9_$-]+|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/g;
+  let cursor = 1;
+  let match: RegExpExecArray | null;
+  token.lastIndex = 1;
+  while (cursor < source.length && (match = token.exec(source)) && match.index === cursor) {
+    cursor = token.lastIndex;
+    if (match[0] === '..') {
+      segments.push({ kind: 'descend' });
+      // "$..email" continues with a plain name rather than ".email"
+      const name = source.slice(cursor).match(/^([A-Za-z0-9_$-]+|\*)/);
+      if (name) {
+        segments.push(name[1] === '*' ? { kind: 'wildcard' } : { kind: 'key', name: name[1] });
+        cursor += name[1].length;
+        token.lastIndex = cursor;
+      }
+      continue;
+    }
+    const part = match[1] ?? match[2];
+    if (part === '*') segments.push({ kind: 'wildcard' });
+    else if (/^\d+$/.test(part)) segments.push({ kind: 'index', index: parseInt(part, 10) });
+    else segments.push({ kind: 'key', name: part.replace(/^['"]|['"]$/g, '') });
+  }
+  if (cursor !== source.length) throw new Error(`Unsupported field path '${expression}'`);
+  return segments;
+}
+
+export function matchesFieldPath(segments: PathSegment[], path: JsonPath): boolean {
+  if (segments.length === 0) return path.length === 0;
+  const [segment, ...rest] = segments;
+  if (segment.kind === 'descend') {
+    // Zero or more levels, then the rest of the expression
+    for (let skip = 0; skip <= path.length; skip++) {
+      if (matchesFieldPath(rest, path.slice(skip))) return true;
+    }
+    return false;
+  }
+  if (path.length === 0) return false;
+  const [head, ...tail] = path;
+  const matched = segment.kind === 'wildcard'
+    || (segment.kind === 'key' && head === segment.name)
+    || (segment.kind === 'index' && head === segment.index);
+  return matched && matchesFieldPath(rest, tail);
+}
+
+export function detectStructuredFormat(data: string): StructuredFormat {
+  return /^\s*[{[]/.test(data.replace(/^\uFEFF/, '')) ? 'json' : 'csv';
+}
+
+export function parseStructured(data: string, format: StructuredFormat = detectStructuredFormat(data)): StructuredDocument {
+  return format === 'json' ? parseJsonDocument(data) : parseCsvDocument(data);
+}
+
+// Offsets of every string value (never keys) in valid JSON text, so values can be swapped
+// without re-serializing: numbers, key order and whitespace stay byte-for-byte identical
+class JsonStringScanner {
+  private i = 0;
+  readonly leaves: Array<StructuredLeaf & { start: number; end: number }> = [];
+
+  constructor(private raw: string) {}
+
+  scan(lines: boolean) {
+    for (let record = 0; ; record++) {
+      this.skipWhitespace();
+      if (this.i >= this.raw.length) return;
+      this.value(lines ? [record] : []);
+    }
+  }
+
+  private skipWhitespace() {
+    while (this.i < this.raw.length && /\s/.test(this.raw.charAt(this.i))) this.i++;
+  }
+
+  private value(path: JsonPath) {
+    this.skipWhitespace();
+    const char = this.raw.charAt(this.i);
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      this.i++;
+      for (let index = 0; ; index++) {
+        this.skipWhitespace();
+        if (this.raw.charAt(this.i) === close) break;
+        if (char === '{') {
+          const key = this.string();
+          this.skipWhitespace();
+          this.i++; // ':'
+          this.value(path.concat(key));
+        } else {
+          this.value(path.concat(index));
+        }
+        this.skipWhitespace();
+        if (this.raw.charAt(this.i) === ',') this.i++;
+      }
+      this.i++;
+    } else if (char === '"') {
+      const start = this.i;
+      const value = this.string();
+      this.leaves.push({ path, value, start, end: this.i });
+    } else {
+      // Number, true, false or null
+      while (this.i < this.raw.length && /[^\s,\]}]/.test(this.raw.charAt(this.i))) this.i++;
+    }
+  }
+
+  private string(): string {
+    const start = this.i;
+    this.i++;
+    while (this.raw.charAt(this.i) !== '"') {
+      this.i += this.raw.charAt(this.i) === '\\' ? 2 : 1;
+    }
+    this.i++;
+    return JSON.parse(this.raw.slice(start, this.i));
+  }
+}
+
+function parseJsonDocument(data: string): StructuredDocument {
+  // Validates the input (and tells JSON from JSON Lines) before scanning it
+  let parsed: { values: any[]; lines: boolean };
+  try {
+    parsed = parseJsonOrLines(data);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON data: ${error.message}`);
+  }
+  const { values, lines } = parsed;
+  const scanner = new JsonStringScanner(data);
+  scanner.scan(lines);
+  const leaves = scanner.leaves;
+
+  return {
+    format: 'json',
+    leaves,
+    rebuild(newValues) {
+      let output = '';
+      let cursor = 0;
+      leaves.forEach((leaf, i) => {
+        const value = newValues[i];
+        output += data.slice(cursor, leaf.start) + (value === leaf.value ? data.slice(leaf.start, leaf.end) : JSON.stringify(value));
+        cursor = leaf.end;
+      });
+      output += data.slice(cursor);
+
+      const reparsed = parseJsonOrLines(output).values;
+      const mismatch = reparsed.length === values.length
+        ? values.map((value, i) => compareShape(value, reparsed[i], lines ? [i] : [])).filter(Boolean)[0]
+        : 'record count';
+      if (mismatch) throw new Error(`Sanitized JSON changed shape at ${mismatch}`);
+      return output;
+    },
+  };
+}
+
+// null when both values have the same keys, array lengths, types and non-string values
+function compareShape(before: any, after: any, path: JsonPath): string | null {
+  const where = formatPath(path);
+  if (typeof before !== typeof after || Array.isArray(before) !== Array.isArray(after) || (before === null) !== (after === null)) {
+    return where;
+  }
+  if (Array.isArray(before)) {
+    if (before.length !== after.length) return where;
+    return before.map((item, i) => compareShape(item, after[i], path.concat(i))).filter(Boolean)[0] || null;
+  }
+  if (before && typeof before === 'object') {
+    const keys = Object.keys(before);
+    if (keys.join('\u0000') !== Object.keys(after).join('\u0000')) return where;
+    return keys.map(key => compareShape(before[key], after[key], path.concat(key))).filter(Boolean)[0] || null;
+  }
+  return typeof before === 'string' || before === after ? null : where;
+}
+
+// The first row is the header; each later row is a record keyed by column name
+function parseCsvDocument(data: string): StructuredDocument {
+  const doc: CsvDocument = readCsv(data);
+  const header = doc.rows.length ? doc.rows[0].map(cell => cell.value) : [];
+  const positions: Array<{ row: number; column: number }> = [];
+  const leaves: StructuredLeaf[] = [];
+
+  doc.rows.slice(1).forEach((row, record) => {
+    row.forEach((cell, column) => {
+      positions.push({ row: record + 1, column });
+      leaves.push({ path: [record, header[column] ?? column], value: cell.value });
+    });
+  });
+
+  return {
+    format: 'csv',
+    leaves,
+    rebuild(newValues) {
+      const values: string[][] = doc.rows.map(row => row.map(cell => cell.value));
+      positions.forEach((position, i) => {
+        values[position.row][position.column] = newValues[i];
+      });
+      const output = writeCsv(doc, (row, column) => values[row][column]);
+
+      const reparsed = readCsv(output).rows;
+      const shapeKept = reparsed.length === doc.rows.length
+        && reparsed.every((row, r) => row.length === doc.rows[r].length)
+        && (reparsed.length === 0 || reparsed[0].every((cell, c) => cell.value === header[c]));
+      if (!shapeKept) throw new Error('Sanitized CSV changed shape');
+      return output;
+    },
+  };
+}
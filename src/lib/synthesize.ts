@@ -0,0 +1,91 @@
+// Fake-but-realistic replacement values, derived deterministically from a seed
+// so the same original value always synthesizes to the same fake one
+
+const FIRST_NAMES = ['Alex', 'Jordan', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn', 'Rowan'];
+const LAST_NAMES = ['Parker', 'Reed', 'Hayes', 'Ellis', 'Brooks', 'Foster', 'Gray', 'Hart', 'Lane', 'Wells'];
+const STREETS = ['Oak', 'Maple', 'Cedar', 'Elm', 'Willow', 'Birch', 'Pine', 'Ash'];
+const STREET_SUFFIXES = ['St', 'Ave', 'Rd', 'Lane', 'Way'];
+const CITIES = ['Springfield', 'Riverton', 'Fairview', 'Lakeside', 'Greenville'];
+
+class SeededDigits {
+  private index = 0;
+
+  constructor(private seed: Buffer) {}
+
+  next(max: number): number {
+    const byte = this.seed[this.index % this.seed.length];
+    this.index++;
+    return byte % max;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.next(items.length)];
+  }
+
+  digits(count: number): string {
+    let out = '';
+    for (let i = 0; i < count; i++) out += String(this.next(10));
+    return out;
+  }
+}
+
+function luhnCheckDigit(partial: string): string {
+  let sum = 0;
+  for (let i = 0; i < partial.length; i++) {
+    let digit = Number(partial[partial.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function ibanCheckDigits(country: string, bban: string): string {
+  const rearranged = `${bban}${country}00`
+    .split('')
+    .map(char => (char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char))
+    .join('');
+  let remainder = 0;
+  for (const digit of rearranged.split('')) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  const check = 98 - remainder;
+  return check < 10 ? `0${check}` : String(check);
+}
+
+const generators: Record<string, (rng: SeededDigits, original: string) => string> = {
+  PERSON: rng => `${rng.pick(FIRST_NAMES)} ${rng.pick(LAST_NAMES)}`,
+  NAME: rng => `${rng.pick(FIRST_NAMES)} ${rng.pick(LAST_NAMES)}`,
+  EMAIL: rng => `${rng.pick(FIRST_NAMES).toLowerCase()}.${rng.pick(LAST_NAMES).toLowerCase()}@example.com`,
+  // 555-01xx numbers are reserved for fiction
+  PHONE: rng => `+1 555-01${rng.digits(2)}`,
+  ADDRESS: rng => `${1 + rng.next(999)} ${rng.pick(STREETS)} ${rng.pick(STREET_SUFFIXES)}, ${rng.pick(CITIES)}`,
+  DATE_OF_BIRTH: rng => `${1950 + rng.next(50)}-0${1 + rng.next(9)}-1${rng.next(10)}`,
+  // 4000 00xx... is a test card range; the check digit keeps it Luhn-valid
+  CREDIT_CARD: rng => {
+    const partial = `400000${rng.digits(9)}`;
+    const card = partial + luhnCheckDigit(partial);
+    return card.replace(/(\d{4})(?=\d)/g, '$1 ');
+  },
+  IBAN: rng => {
+    const bban = `TEST${rng.digits(14)}`;
+    return `GB${ibanCheckDigits('GB', bban)}${bban}`.replace(/(.{4})(?=.)/g, '$1 ');
+  },
+  SORT_CODE: rng => `00-${rng.digits(2)}-${rng.digits(2)}`,
+  // Area numbers 9xx are never issued as SSNs
+  US_SSN: rng => `9${rng.digits(2)}-${rng.digits(2)}-${rng.digits(4)}`,
+  // Documentation ranges (RFC 5737 / RFC 3849)
+  IP_ADDRESS: (rng, original) =>
+    original.indexOf(':') !== -1 ? `2001:db8::${rng.next(256).toString(16)}` : `203.0.113.${rng.next(255)}`,
+};
+
+export function canSynthesize(entityType: string): boolean {
+  return entityType in generators;
+}
+
+export function synthesizeValue(entityType: string, original: string, seed: Buffer): string | null {
+  const generator = generators[entityType];
+  return generator ? generator(new SeededDigits(seed), original) : null;
+}
@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { DATA_DIR, ensureDataDir, readFileIfExists } from './storage';
+import type { ModelResult } from './models';
+import type { UsageGroupBy, UsageSummary, UsageTotals } from '../mcp/types';
+
+// Token usage, cost estimates, per-client limits and the usage ledger.
+//
+// Every tool call is appended to <data dir>/usage/<YYYY-MM>.jsonl with the client and team it
+// is billed to and the model calls it made; usage/get aggregates those files.
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices for the registry's default models; self-hosted and mock models cost nothing per token
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+const priceFileSchema = z.record(z.object({ input: z.number().min(0), output: z.number().min(0) }));
+
+let priceTable: Record<string, ModelPrice> | null = null;
+const unpriced = new Set<string>();
+
+// MODEL_PRICES_FILE (JSON or YAML) maps a model name, or a provider id as a catch-all, to its prices
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (priceTable) return priceTable;
+
+  const file = process.env.MODEL_PRICES_FILE;
+  let custom: Record<string, ModelPrice> = {};
+  if (file) {
+    const raw = fs.readFileSync(path.resolve(file), 'utf8');
+    const ext = path.extname(file).toLowerCase();
+    const parsed = priceFileSchema.safeParse(ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw));
+    if (!parsed.success) {
+      throw new Error(`Invalid price file ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+    custom = parsed.data;
+  }
+  priceTable = { ...DEFAULT_PRICES, ...custom };
+  return priceTable;
+}
+
+export function estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+  const table = getPriceTable();
+  const price = table[model] ?? table[provider];
+  if (!price) {
+    if (!unpriced.has(model)) {
+      unpriced.add(model);
+      console.warn(`[Usage] No price for ${provider} model ${model}; counted as $0 (see MODEL_PRICES_FILE)`);
+    }
+    return 0;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export interface ModelCallUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+  costUsd: number;
+}
+
+// Collects the model calls made while serving one request (chunks, verification, retries)
+export class UsageMeter {
+  readonly calls: ModelCallUsage[] = [];
+
+  add(result: ModelResult<any>) {
+    const { inputTokens, outputTokens, estimated } = result.usage;
+    this.calls.push({
+      provider: result.provider,
+      model: result.model,
+      inputTokens,
+      outputTokens,
+      estimated,
+      costUsd: estimateCost(result.provider, result.model, inputTokens, outputTokens),
+    });
+  }
+
+  summary(): UsageSummary {
+    return {
+      inputTokens: this.calls.reduce((total, call) => total + call.inputTokens, 0),
+      outputTokens: this.calls.reduce((total, call) => total + call.outputTokens, 0),
+      costUsd: roundCost(this.calls.reduce((total, call) => total + call.costUsd, 0)),
+      estimated: this.calls.some(call => call.estimated),
+    };
+  }
+}
+
+const roundCost = (value: number) => Math.round(value * 1e8) / 1e8;
+
+// Who a request is billed to
+export interface UsageClient {
+  client: string;
+  team: string;
+}
+
+export interface UsageRecord extends UsageClient, UsageSummary {
+  timestamp: string;
+  tool: string;
+  ok: boolean;
+  calls: ModelCallUsage[];
+}
+
+export interface UsageLimits {
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+}
+
+function envLimit(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : undefined;
+}
+
+// RATE_LIMIT_RPM and TOKEN_QUOTA_PER_DAY apply to every client; API keys can override them
+export function resolveLimits(overrides: UsageLimits = {}): UsageLimits {
+  return {
+    requestsPerMinute: overrides.requestsPerMinute ?? envLimit('RATE_LIMIT_RPM'),
+    tokensPerDay: overrides.tokensPerDay ?? envLimit('TOKEN_QUOTA_PER_DAY'),
+  };
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+const MINUTE_MS = 60_000;
+
+// Days and months are UTC
+const dayOf = (timestamp: string) => timestamp.slice(0, 10);
+const monthOf = (timestamp: string) => timestamp.slice(0, 7);
+
+export class UsageLedger {
+  // Request timestamps in the last minute, per client
+  private recent = new Map<string, number[]>();
+  // Tokens used today, per client; rebuilt from the ledger after a restart
+  private today: { day: string; tokens: Map<string, number> } | null = null;
+  private loadingToday: Promise<void> | null = null;
+
+  private file(month: string): string {
+    return path.join(DATA_DIR, 'usage', `${month}.jsonl`);
+  }
+
+  private async read(month: string): Promise<UsageRecord[]> {
+    const raw = (await readFileIfExists(this.file(month)))?.toString('utf8') ?? '';
+    // A crash can leave half a line at the end
+    return raw.split('\n').filter(line => line.trim()).map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    }).filter((record): record is UsageRecord => record !== null);
+  }
+
+  private async ensureToday(): Promise<Map<string, number>> {
+    const day = dayOf(new Date().toISOString());
+    if (this.today?.day !== day) {
+      if (!this.loadingToday) {
+        this.loadingToday = (async () => {
+          const tokens = new Map<string, number>();
+          (await this.read(day.slice(0, 7)))
+            .filter(record => dayOf(record.timestamp) === day)
+            .forEach(record => tokens.set(record.client, (tokens.get(record.client) ?? 0) + record.inputTokens + record.outputTokens));
+          this.today = { day, tokens };
+        })().finally(() => {
+          this.loadingToday = null;
+        });
+      }
+      await this.loadingToday;
+    }
+    return this.today!.tokens;
+  }
+
+  async tokensToday(client: string): Promise<number> {
+    return (await this.ensureToday()).get(client) ?? 0;
+  }
+
+  // Throws when the client is over its per-minute or per-day limit; otherwise counts the request
+  async admit(client: string, limits: UsageLimits): Promise<void> {
+    if (limits.tokensPerDay !== undefined) {
+      const used = await this.tokensToday(client);
+      if (used >= limits.tokensPerDay) {
+        const tomorrow = new Date();
+        tomorrow.setUTCHours(24, 0, 0, 0);
+        throw new RateLimitError(
+          `Daily token quota exceeded for '${client}' (${used} of ${limits.tokensPerDay} tokens)`,
+          tomorrow.getTime() - Date.now()
+        );
+      }
+    }
+
+    const now = Date.now();
+    const recent = (this.recent.get(client) ?? []).filter(time => now - time < MINUTE_MS);
+    if (limits.requestsPerMinute !== undefined && recent.length >= limits.requestsPerMinute) {
+      this.recent.set(client, recent);
+      throw new RateLimitError(
+        `Rate limit exceeded for '${client}' (${limits.requestsPerMinute} requests per minute)`,
+        MINUTE_MS - (now - recent[0])
+      );
+    }
+    recent.push(now);
+    this.recent.set(client, recent);
+  }
+
+  async record(entry: Omit<UsageRecord, 'timestamp'>): Promise<UsageRecord> {
+    const record: UsageRecord = { timestamp: new Date().toISOString(), ...entry };
+    const tokens = await this.ensureToday();
+    tokens.set(record.client, (tokens.get(record.client) ?? 0) + record.inputTokens + record.outputTokens);
+
+    await ensureDataDir('usage');
+    await fs.promises.appendFile(this.file(monthOf(record.timestamp)), JSON.stringify(record) + '\n', { mode: 0o600 });
+    return record;
+  }
+
+  // Totals for one month, grouped; `include` limits which records the caller may see
+  async report(
+    month: string,
+    groupBy: UsageGroupBy,
+    include: (record: UsageRecord) => boolean = () => true
+  ): Promise<{ totals: UsageTotals; groups: Array<UsageTotals & { key: string }> }> {
+    const records = (await this.read(month)).filter(include);
+    const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    const groups = new Map<string, UsageTotals>();
+    const add = (target: UsageTotals, usage: { inputTokens: number; outputTokens: number; costUsd: number }) => {
+      target.requests++;
+      target.inputTokens += usage.inputTokens;
+      target.outputTokens += usage.outputTokens;
+      target.costUsd += usage.costUsd;
+    };
+    const group = (key: string) => {
+      if (!groups.has(key)) groups.set(key, { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+      return groups.get(key)!;
+    };
+
+    records.forEach(record => {
+      add(totals, record);
+      if (groupBy === 'provider' || groupBy === 'model') {
+        record.calls.forEach(call => add(group(groupBy === 'provider' ? call.provider : `${call.provider}:${call.model}`), call));
+      } else {
+        add(group(groupBy === 'day' ? dayOf(record.timestamp) : record[groupBy]), record);
+      }
+    });
+
+    const rounded = (usage: UsageTotals) => ({ ...usage, costUsd: roundCost(usage.costUsd) });
+    const list: Array<UsageTotals & { key: string }> = [];
+    groups.forEach((usage, key) => list.push({ key, ...rounded(usage) }));
+    return {
+      totals: rounded(totals),
+      groups: list.sort((a, b) => (groupBy === 'day' ? (a.key < b.key ? -1 : 1) : b.costUsd - a.costUsd || b.requests - a.requests)),
+    };
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+export const currentMonth = () => monthOf(new Date().toISOString());
@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { EncryptedFile, decryptText, encryptText, ensureDataDir, readFileIfExists, writeFileAtomic } from './storage';
+
+// Encrypted store of pseudonym tokens (e.g. PERSON_1) and the values they replace
+
+interface SessionData {
+  tokens: Record<string, { entityType: string; value: string }>;
+  counters: Record<string, number>;
+  // API key id that created the session; sessions created without a key have none
+  owner?: string;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class VaultSession {
+  private byValue: Record<string, string> = {};
+
+  constructor(readonly id: string, private data: SessionData) {
+    Object.keys(data.tokens).forEach(token => {
+      const { entityType, value } = data.tokens[token];
+      this.byValue[`${entityType}:${value}`] = token;
+    });
+  }
+
+  // The same entity always maps to the same token within a session
+  tokenFor(entityType: string, value: string): string {
+    const key = `${entityType}:${value}`;
+    const existing = this.byValue[key];
+    if (existing) return existing;
+
+    const next = (this.data.counters[entityType] ?? 0) + 1;
+    this.data.counters[entityType] = next;
+    const token = `${entityType}_${next}`;
+    this.data.tokens[token] = { entityType, value };
+    this.byValue[key] = token;
+    return token;
+  }
+
+  restore(text: string): { text: string; restored: number } {
+    const tokens = Object.keys(this.data.tokens).sort((a, b) => b.length - a.length);
+    if (tokens.length === 0) return { text, restored: 0 };
+
+    let restored = 0;
+    const pattern = new RegExp(`\\b(?:${tokens.map(escapeRegExp).join('|')})\\b`, 'g');
+    const output = text.replace(pattern, token => {
+      restored++;
+      return this.data.tokens[token].value;
+    });
+    return { text: output, restored };
+  }
+
+  get owner(): string | undefined {
+    return this.data.owner;
+  }
+
+  toJSON(): SessionData {
+    return this.data;
+  }
+}
+
+export class TokenVault {
+  private sessions = new Map<string, VaultSession>();
+  private pendingWrites = new Map<string, Promise<void>>();
+
+  createSessionId(): string {
+    return randomUUID();
+  }
+
+  // Sessions belong to the API key that created them (`owner` is its id, undefined without keys)
+  async getSession(sessionId: string, owner?: string): Promise<VaultSession> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid vault session id '${sessionId}'`);
+    }
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      const raw = await readFileIfExists(await this.sessionFile(sessionId));
+      const data: SessionData = raw
+        ? JSON.parse(await this.decrypt(JSON.parse(raw.toString('utf8'))))
+        : { tokens: {}, counters: {}, owner };
+      session = new VaultSession(sessionId, data);
+      this.sessions.set(sessionId, session);
+    }
+    if (session.owner !== owner) {
+      throw new Error(`Vault session '${sessionId}' belongs to another API key`);
+    }
+    return session;
+  }
+
+  // Writes for the same session are serialized so none are lost
+  async save(session: VaultSession): Promise<void> {
+    const previous = this.pendingWrites.get(session.id) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const encrypted = await encryptText(JSON.stringify(session));
+      await writeFileAtomic(await this.sessionFile(session.id), JSON.stringify(encrypted));
+    });
+    this.pendingWrites.set(session.id, write.catch(() => undefined));
+    return write;
+  }
+
+  private async sessionFile(sessionId: string): Promise<string> {
+    return path.join(await ensureDataDir('vault'), `${sessionId}.json`);
+  }
+
+  private async decrypt(file: EncryptedFile): Promise<string> {
+    try {
+      return await decryptText(file);
+    } catch {
+      throw new Error('Unable to decrypt vault session (wrong VAULT_KEY?)');
+    }
+  }
+}
+
+export const tokenVault = new TokenVault();
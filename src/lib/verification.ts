@@ -0,0 +1,239 @@
+import { detectorEngine } from './detectors';
+import type { Finding } from '../mcp/types';
+import { extractEntities } from './extraction';
+import { ModelProvider } from './models';
+import { UsageMeter } from './usage';
+import { Locale } from './locales';
+import { WIDE_CHARACTER } from './adapters/types';
+import { VerificationIssue, VerificationReport } from '../mcp/types';
+
+// Post-sanitization checks: does the output still leak anything, and is it otherwise the input verbatim?
+
+// What to do when verification fails: report only, re-run the tool, or refuse to return the text
+export type VerificationMode = 'off' | 'report' | 'retry' | 'reject';
+
+export interface VerificationConfig {
+  mode: VerificationMode;
+  maxRetries: number;
+  // Optional second model that re-reads the output for anything the first pass missed
+  provider?: ModelProvider;
+}
+
+export function getVerificationConfig(): VerificationConfig {
+  const mode = (process.env.VERIFICATION_MODE || 'report') as VerificationMode;
+  if (['off', 'report', 'retry', 'reject'].indexOf(mode) === -1) {
+    throw new Error(`VERIFICATION_MODE must be one of off, report, retry, reject (got '${mode}')`);
+  }
+  return {
+    mode,
+    maxRetries: parseInt(process.env.VERIFICATION_MAX_RETRIES || '1', 10),
+    provider: (process.env.VERIFICATION_PROVIDER || undefined) as ModelProvider | undefined,
+  };
+}
+
+export interface VerificationInput {
+  text: string;
+  sanitizedText: string;
+  findings: Finding[];
+  // Entity types the tool is responsible for (undefined = every detector)
+  entityTypes?: string[];
+  // Entity types the caller or policy asked to keep
+  isKept: (entityType: string) => boolean;
+  // Text the organization's allow list covers, which may stay in the output
+  allowedSpans?: (text: string) => Span[];
+  // Runs that locale's detectors, and tells the verifier model the language
+  locale?: Locale;
+  provider?: ModelProvider;
+  // Provider scope of the caller's API key, which the verifier model and its fallbacks must stay within
+  allowedProviders?: string[];
+  usage?: UsageMeter;
+  signal?: AbortSignal;
+}
+
+export interface VerificationOutcome {
+  report: VerificationReport;
+  // Values that leaked, so a retry can redact them; never included in the report itself
+  leaks: Array<{ entityType: string; value: string }>;
+}
+
+const MODEL_VERIFIER_PROMPT =
+  'You are checking text that has already been sanitized. Identify any personal, financial, medical or ' +
+  'otherwise sensitive value that is still present in clear text.';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Where each finding's replacement landed in the sanitized text
+function replacementSpans(findings: Finding[]): Span[] {
+  let delta = 0;
+  return findings
+    .slice()
+    .sort((a, b) => a.start - b.start)
+    .map(finding => {
+      const start = finding.start + delta;
+      delta += finding.replacement.length - (finding.end - finding.start);
+      return { start, end: start + finding.replacement.length };
+    });
+}
+
+const overlapsAny = (spans: Span[], start: number, end: number) =>
+  spans.some(span => start < span.end && end > span.start);
+
+// Everything outside the findings must be the input verbatim, and each replacement must sit where it was reported
+function checkIntegrity(text: string, sanitizedText: string, findings: Finding[]): VerificationIssue[] {
+  const issues: VerificationIssue[] = [];
+  const sorted = findings.slice().sort((a, b) => a.start - b.start);
+  let inCursor = 0;
+  let outCursor = 0;
+
+  for (const finding of sorted) {
+    const kept = text.slice(inCursor, finding.start);
+    if (sanitizedText.slice(outCursor, outCursor + kept.length) !== kept) {
+      issues.push({
+        kind: 'dropped_content',
+        start: outCursor,
+        end: outCursor + kept.length,
+        detail: 'Text outside the redacted spans differs from the input',
+        source: 'integrity',
+      });
+      return issues;
+    }
+    outCursor += kept.length;
+
+    if (sanitizedText.slice(outCursor, outCursor + finding.replacement.length) !== finding.replacement) {
+      issues.push({
+        kind: 'added_content',
+        entityType: finding.entityType,
+        start: outCursor,
+        end: outCursor + finding.replacement.length,
+        detail: 'Replacement does not match the reported finding',
+        source: 'integrity',
+      });
+      return issues;
+    }
+    outCursor += finding.replacement.length;
+    inCursor = finding.end;
+  }
+
+  const tail = text.slice(inCursor);
+  const outputTail = sanitizedText.slice(outCursor);
+  if (outputTail !== tail) {
+    issues.push({
+      kind: outputTail.length > tail.length ? 'added_content' : 'dropped_content',
+      start: outCursor,
+      end: sanitizedText.length,
+      detail: 'Text outside the redacted spans differs from the input',
+      source: 'integrity',
+    });
+  }
+  return issues;
+}
+
+const WORD_CHARACTER = new RegExp('[\\p{L}\\p{N}_]', 'u');
+
+// Letters and digits continue a word; CJK text has no spaces between words, so its characters do not
+const continuesWord = (char: string) => !!char && WORD_CHARACTER.test(char) && !WIDE_CHARACTER.test(char);
+
+// Case-insensitive occurrences of a value as a whole token, so "Ann" is not found inside "annual"
+export function findValue(text: string, value: string): number[] {
+  const lowerText = text.toLowerCase();
+  const needle = value.toLowerCase();
+  const starts: number[] = [];
+  if (!needle.trim()) return starts;
+
+  const checkBefore = continuesWord(needle.charAt(0));
+  const checkAfter = continuesWord(needle.charAt(needle.length - 1));
+  let index = lowerText.indexOf(needle);
+  while (index !== -1) {
+    const end = index + needle.length;
+    if (!(checkBefore && continuesWord(text.charAt(index - 1))) && !(checkAfter && continuesWord(text.charAt(end)))) {
+      starts.push(index);
+    }
+    index = lowerText.indexOf(needle, checkBefore || checkAfter ? index + 1 : end);
+  }
+  return starts;
+}
+
+export async function verifySanitization(input: VerificationInput): Promise<VerificationOutcome> {
+  const { text, sanitizedText, findings, isKept } = input;
+  const spans = replacementSpans(findings);
+  const issues: VerificationIssue[] = [];
+  const leaks: VerificationOutcome['leaks'] = [];
+  const checks = ['integrity', 'residual_values', 'detectors'];
+  const allowed = input.allowedSpans?.(sanitizedText) ?? [];
+  const isAllowed = (start: number, end: number) => allowed.some(span => span.start <= start && end <= span.end);
+
+  issues.push(...checkIntegrity(text, sanitizedText, findings));
+
+  // Every redacted value must be gone, including differently-cased copies of it
+  findings.forEach(finding => {
+    const value = text.slice(finding.start, finding.end);
+    findValue(sanitizedText, value).forEach(index => {
+      const end = index + value.length;
+      if (overlapsAny(spans, index, end)) return;
+      issues.push({
+        kind: 'residual_value',
+        entityType: finding.entityType,
+        start: index,
+        end,
+        detail: `A redacted ${finding.entityType} value is still present`,
+        source: 'residual',
+      });
+      leaks.push({ entityType: finding.entityType, value: sanitizedText.slice(index, end) });
+    });
+  });
+
+  // Deterministic detectors on the output catch what the sanitizer never found
+  detectorEngine.detect(sanitizedText, input.entityTypes, input.locale).forEach(match => {
+    if (isKept(match.entityType) || isAllowed(match.start, match.end)) return;
+    if (overlapsAny(spans, match.start, match.end)) return;
+    issues.push({
+      kind: 'undetected_entity',
+      entityType: match.entityType,
+      start: match.start,
+      end: match.end,
+      detail: `${match.entityType} found by ${match.detector} in the sanitized text`,
+      source: match.detector,
+    });
+    leaks.push({ entityType: match.entityType, value: match.value });
+  });
+
+  if (input.provider) {
+    checks.push('model');
+    const { matches } = await extractEntities(input.provider, sanitizedText, MODEL_VERIFIER_PROMPT, sanitizedText, {
+      usage: input.usage,
+      signal: input.signal,
+      locale: input.locale,
+      allowedProviders: input.allowedProviders,
+    });
+    matches.forEach(match => {
+      if (isKept(match.entityType) || isAllowed(match.start, match.end)) return;
+      if (overlapsAny(spans, match.start, match.end)) return;
+      issues.push({
+        kind: 'model_flagged',
+        entityType: match.entityType,
+        start: match.start,
+        end: match.end,
+        detail: `Verifier model flagged a possible ${match.entityType}`,
+        source: match.detector,
+      });
+      leaks.push({ entityType: match.entityType, value: match.value });
+    });
+  }
+
+  return {
+    report: { passed: issues.length === 0, checks, issues, attempts: 1 },
+    leaks,
+  };
+}
+
+export function summarizeIssues(issues: VerificationIssue[]): string {
+  const counts: Record<string, number> = {};
+  issues.forEach(issue => {
+    const key = issue.entityType ? `${issue.kind} (${issue.entityType})` : issue.kind;
+    counts[key] = (counts[key] ?? 0) + 1;
+  });
+  return Object.keys(counts).map(key => `${counts[key]}× ${key}`).join(', ');
+}
@@ -0,0 +1,189 @@
+import express, { Request, Response, Router } from 'express';
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { z } from 'zod';
+import { McpLikeServer } from './server';
+import { JSONRPC_VERSION, ToolList } from './types';
+import { formatIssues } from './schema';
+import { JobQueue, JobRecord, JobRunner, isFinished } from '../lib/jobs';
+import { modelProviderSchema } from '../lib/providers';
+import { Principal, canUseProvider, canUseTool, resolveProvider, usageClientFor } from '../lib/auth';
+import { RateLimitError, resolveLimits, usageLedger } from '../lib/usage';
+
+// REST API for batch jobs, served next to the MCP endpoint:
+//   POST /jobs, GET /jobs, GET /jobs/:id, GET /jobs/:id/events (SSE),
+//   GET /jobs/:id/results (JSON Lines download), DELETE /jobs/:id (cancel)
+
+const submissionSchema = z.object({
+  tool: z.string().default('general_sanitize'),
+  provider: modelProviderSchema.optional(),
+  // Shared by every item, e.g. { "mode": "pseudonymize", "policy": "masked" }
+  arguments: z.record(z.any()).optional(),
+  items: z
+    .array(z.object({ id: z.string().optional() }).passthrough())
+    .min(1, 'At least one item is required'),
+});
+
+// Items run through tools/call in-process, so they get the same validation as MCP clients,
+// and their usage is billed to whoever submitted the job
+export function createServerRunner(server: McpLikeServer): JobRunner {
+  return async (tool, args, provider, job, signal) => {
+    const client = job.owner ?? 'anonymous';
+    const response = await server.handleMessage({
+      jsonrpc: JSONRPC_VERSION,
+      // Each item has its own id, so a notifications/cancelled from a client cannot guess or hit it
+      id: `batch-${randomUUID()}`,
+      method: 'tools/call',
+      params: { name: tool, arguments: args, _meta: { provider } },
+    }, { billing: { client, team: job.team ?? client }, organization: job.organization, providers: job.providers, tools: job.tools, owner: job.owner, signal });
+    // Cancelled requests get no response
+    if (!response) throw new Error('Cancelled with the job');
+    if (response.error) throw new Error(response.error.message);
+    const result = response?.result;
+    if (result?.isError) throw new Error(result.content[0]?.text || 'Tool execution failed');
+    return result?.structuredContent;
+  };
+}
+
+// Express 4 does not catch rejected promises from async handlers
+const handle = (fn: (req: Request, res: Response) => Promise<void>) => (req: Request, res: Response) => {
+  fn(req, res).catch(error => {
+    console.error('[Jobs] Request failed:', error.message);
+    if (!res.headersSent) res.status(500).json({ error: error.message || 'Internal error' });
+    else res.end();
+  });
+};
+
+export function createBatchRouter(server: McpLikeServer, queue: JobQueue): Router {
+  const router = Router();
+  router.use(express.json({ limit: process.env.BATCH_MAX_BODY || '100mb' }));
+
+  router.post('/', handle(async (req, res) => {
+    const parsed = submissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid job', issues: formatIssues(parsed.error) });
+      return;
+    }
+
+    const { tool, arguments: args, items } = parsed.data;
+    const principal: Principal | undefined = res.locals.principal;
+    // Scopes are checked here; items later run in-process without a principal
+    const listed = await server.handleMessage({ jsonrpc: JSONRPC_VERSION, id: 'batch', method: 'tools/list' }, { principal });
+    const tools = (listed?.result as ToolList).tools;
+    if (!tools.some(t => t.name === tool) || !canUseTool(principal, tool)) {
+      res.status(400).json({ error: `Unknown tool '${tool}'` });
+      return;
+    }
+    const provider = resolveProvider(principal, parsed.data.provider);
+    if (!canUseProvider(principal, provider)) {
+      res.status(403).json({ error: `API key '${principal!.id}' may not use provider '${provider}'` });
+      return;
+    }
+
+    // A submission counts as one request; a client over its daily token quota cannot start new jobs
+    const billing = usageClientFor(principal);
+    try {
+      await usageLedger.admit(billing.client, resolveLimits(principal?.limits));
+    } catch (error: any) {
+      if (!(error instanceof RateLimitError)) throw error;
+      res.status(429).set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000))).json({ error: error.message });
+      return;
+    }
+
+    const job = await queue.submit({
+      tool,
+      provider,
+      owner: principal?.id,
+      team: principal?.team,
+      organization: principal?.organization,
+      providers: principal?.providers,
+      tools: principal?.tools,
+      arguments: args,
+      items: items.map(({ id, ...itemArgs }) => ({ id, arguments: itemArgs })),
+    });
+    res.status(202).location(`${req.baseUrl}/${job.id}`).json(job);
+  }));
+
+  // With API keys, each key only sees the jobs it submitted
+  const visible = (job: JobRecord, res: Response) => {
+    const principal: Principal | undefined = res.locals.principal;
+    return !principal || job.owner === principal.id;
+  };
+
+  router.get('/', handle(async (_, res) => {
+    res.json({ jobs: (await queue.list()).filter(job => visible(job, res)) });
+  }));
+
+  // Job ids are validated by the store; unknown, malformed and other keys' ids are all 404s
+  const findJob = async (id: string, res: Response): Promise<JobRecord | null> => {
+    const job = await queue.get(id).catch(() => null);
+    return job && visible(job, res) ? job : null;
+  };
+
+  router.get('/:id', handle(async (req, res) => {
+    const job = await findJob(req.params.id, res);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json(job);
+  }));
+
+  // Server-sent status events until the job finishes
+  router.get('/:id/events', handle(async (req, res) => {
+    const job = await findJob(req.params.id, res);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const send = (update: JobRecord) => res.write(`event: status\ndata: ${JSON.stringify(update)}\n\n`);
+    send(job);
+    if (isFinished(job)) {
+      res.end();
+      return;
+    }
+
+    const unsubscribe = queue.onUpdate(update => {
+      if (update.id !== job.id) return;
+      send(update);
+      if (isFinished(update)) {
+        unsubscribe();
+        res.end();
+      }
+    });
+    req.on('close', unsubscribe);
+  }));
+
+  // One JSON line per finished item, in completion order; available while the job runs
+  router.get('/:id/results', handle(async (req, res) => {
+    const job = await findJob(req.params.id, res);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    const file = queue.resultsPath(job.id);
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${job.id}.results.jsonl"`);
+    createReadStream(file)
+      .on('error', (error: any) => (error.code === 'ENOENT' ? res.end() : res.destroy(error)))
+      .pipe(res);
+  }));
+
+  router.delete('/:id', handle(async (req, res) => {
+    const job = (await findJob(req.params.id, res)) && (await queue.cancel(req.params.id).catch(() => null));
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json(job);
+  }));
+
+  return router;
+}
@@ -1,70 +1,464 @@
-import { ToolList, ToolCall, ToolResult, McpRequest } from './types';
-import { ModelProvider } from '../lib/models';
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import {
+  ToolList,
+  ToolCall,
+  ToolResult,
+  PartialOutput,
+  PolicyList,
+  UsageGroupBy,
+  UsageReport,
+  DictionaryReport,
+  CallToolResult,
+  InitializeResult,
+  Implementation,
+  McpMessage,
+  McpNotification,
+  McpRequest,
+  McpResponse,
+  McpProtocolError,
+  ErrorCode,
+  JSONRPC_VERSION,
+  LATEST_PROTOCOL_VERSION,
+} from './types';
+import { ModelProvider } from '../lib/providers';
+import type { DictionaryEntryInput, DictionaryList } from '../lib/dictionaries';
+import { TimeoutError, abortReason, linkedAbort } from '../lib/resilience';
 
-// Custom MCP-like client implementation
-export class McpLikeClient {
-  private baseUrl: string;
+const CLIENT_INFO: Implementation = { name: 'sanitize-ai-client', version: '1.0.0' };
+
+type NotificationHandler = (notification: McpNotification) => void;
+
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface RequestOptions {
+  // Cancels the request; the server is sent notifications/cancelled
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
 
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
+export interface CallToolOptions extends RequestOptions {
+  provider?: ModelProvider;
+  // Receives notifications/progress for this call (e.g. one per chunk of a long document)
+  onProgress?: (progress: ToolProgress) => void;
+  // Receives notifications/tools/partial (drafts of the sanitized text) from servers that stream them
+  onPartial?: (partial: PartialOutput) => void;
+}
+
+// What callToolStream yields: progress and drafts as they arrive, then the result
+export type ToolStreamEvent<T> =
+  | { type: 'progress'; progress: ToolProgress }
+  // `draft` is the sanitized text so far, with the partial already applied
+  | { type: 'partial'; partial: PartialOutput; draft: string }
+  | { type: 'result'; result: T };
+
+export interface HttpClientOptions {
+  // Sent as "Authorization: Bearer <key>" to servers that require API keys
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+// Moves JSON-RPC messages between the client and one MCP server
+export interface ClientTransport {
+  // Resolves with the matching response for requests, or null for notifications;
+  // rejects when `signal` is aborted first
+  send(message: McpRequest | McpNotification, signal?: AbortSignal): Promise<McpResponse | null>;
+  setProtocolVersion?(version: string): void;
+  onNotification?: NotificationHandler;
+  close(): Promise<void>;
+}
+
+// Streamable HTTP transport (JSON or SSE responses, Mcp-Session-Id tracking)
+export class StreamableHttpClientTransport implements ClientTransport {
+  private sessionId?: string;
+  private protocolVersion?: string;
+  onNotification?: NotificationHandler;
+
+  constructor(private endpoint: string, private options: HttpClientOptions = {}) {}
+
+  setProtocolVersion(version: string) {
+    this.protocolVersion = version;
   }
 
-  async connect(): Promise<void> {
-    // Connection is implicit in our HTTP-based implementation
-    console.log(`[MCP Client] Connected to ${this.baseUrl}`);
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.options.headers };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+    return headers;
   }
 
-  async listTools(): Promise<ToolList> {
-    const response = await fetch(`${this.baseUrl}/mcp`, {
+  async send(message: McpRequest | McpNotification, signal?: AbortSignal): Promise<McpResponse | null> {
+    const headers: Record<string, string> = {
+      ...this.headers(),
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion;
+
+    const response = await fetch(this.endpoint, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        method: 'tools/list',
-        params: {}
-      } as McpRequest)
+      headers,
+      body: JSON.stringify(message),
+      // Also stops reading an SSE response
+      signal,
     });
 
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (response.status === 202) return null;
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      // Auth and size errors carry a JSON-RPC error body worth surfacing
+      const body = await response.json().catch(() => null);
+      const detail = body?.error?.message ?? body?.error;
+      throw new Error(`HTTP error! status: ${response.status}${typeof detail === 'string' ? ` (${detail})` : ''}`);
     }
 
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message);
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.indexOf('text/event-stream') !== -1) {
+      return this.readEventStream(response, 'id' in message ? message.id : undefined);
     }
-
-    return data.result;
+    return response.json();
   }
 
-  async callTool(toolCall: ToolCall, provider: ModelProvider = 'openai'): Promise<ToolResult> {
-    const response = await fetch(`${this.baseUrl}/mcp`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        method: 'tools/call',
-        params: {
-          name: toolCall.name,
-          arguments: toolCall.arguments,
-          provider: provider
+  // Dispatch streamed notifications until the response to our request arrives
+  private async readEventStream(response: Response, id: McpRequest['id'] | undefined): Promise<McpResponse | null> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return null;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = event
+          .split('\n')
+          .filter(line => line.indexOf('data:') === 0)
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+
+        const message: McpMessage = JSON.parse(data);
+        if ('method' in message && !('id' in message)) {
+          this.onNotification?.(message);
+        } else if ('id' in message && message.id === id) {
+          reader.cancel().catch(() => undefined);
+          return message as McpResponse;
         }
-      } as McpRequest)
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    await fetch(this.endpoint, {
+      method: 'DELETE',
+      headers: this.headers(),
+    }).catch(() => undefined);
+    this.sessionId = undefined;
+  }
+}
+
+// stdio transport: spawns the server process and speaks newline-delimited JSON-RPC
+export class StdioClientTransport implements ClientTransport {
+  private child: ChildProcess | null = null;
+  private pending = new Map<McpRequest['id'], { resolve: (response: McpResponse) => void; reject: (error: Error) => void }>();
+  onNotification?: NotificationHandler;
+
+  constructor(private command: string, private args: string[] = [], private env?: Record<string, string>) {}
+
+  private start(): ChildProcess {
+    if (this.child) return this.child;
+
+    const child = spawn(this.command, this.args, {
+      env: { ...process.env, ...this.env },
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+    createInterface({ input: child.stdout! }).on('line', line => {
+      if (!line.trim()) return;
+      let message: McpMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Servers should log to stderr; a stray line on stdout is skipped rather than fatal
+        console.warn(`[MCP Client] Ignoring non-JSON output from the server: ${line.slice(0, 200)}`);
+        return;
+      }
+      if (!message || typeof message !== 'object') return;
+      if ('method' in message && !('id' in message)) {
+        this.onNotification?.(message);
+      } else if ('id' in message && message.id !== null && this.pending.has(message.id)) {
+        const request = this.pending.get(message.id)!;
+        this.pending.delete(message.id);
+        request.resolve(message as McpResponse);
+      }
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    // Requests still waiting when the server goes away will never be answered
+    const fail = (error: Error) => {
+      if (this.child === child) this.child = null;
+      this.pending.forEach(request => request.reject(error));
+      this.pending.clear();
+    };
+    child.on('exit', (code, signal) => fail(new Error(`MCP server process exited (${signal ?? `code ${code}`})`)));
+    child.on('error', error => fail(new Error(`MCP server process failed: ${error.message}`)));
+    // Writes after the process died fail here; the exit handler has already rejected the requests
+    child.stdin!.on('error', () => undefined);
+
+    this.child = child;
+    return child;
+  }
+
+  send(message: McpRequest | McpNotification, signal?: AbortSignal): Promise<McpResponse | null> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    const child = this.start();
+    child.stdin!.write(`${JSON.stringify(message)}\n`);
+    if (!('id' in message)) return Promise.resolve(null);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(message.id);
+        reject(abortReason(signal!));
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(message.id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.child?.kill();
+    this.child = null;
+  }
+}
+
+// Model Context Protocol client; talks to any compliant server over HTTP or stdio
+export class McpLikeClient {
+  private transport: ClientTransport;
+  private nextId = 1;
+  private serverInfo: InitializeResult | null = null;
+  private notificationHandler?: NotificationHandler;
+  private progressHandlers = new Map<string | number, (progress: ToolProgress) => void>();
+  private partialHandlers = new Map<string | number, (partial: PartialOutput) => void>();
+
+  constructor(target: string | ClientTransport, options: HttpClientOptions = {}) {
+    this.transport = typeof target === 'string' ? new StreamableHttpClientTransport(target, options) : target;
+    this.transport.onNotification = notification => this.dispatchNotification(notification);
+  }
+
+  onNotification(handler: NotificationHandler) {
+    this.notificationHandler = handler;
+  }
+
+  private dispatchNotification(notification: McpNotification) {
+    if (notification.method === 'notifications/progress') {
+      const { progressToken, progress, total, message } = notification.params ?? {};
+      this.progressHandlers.get(progressToken)?.({ progress, total, message });
+    } else if (notification.method === 'notifications/tools/partial') {
+      this.partialHandlers.get(notification.params?.progressToken)?.(notification.params);
+    }
+    this.notificationHandler?.(notification);
+  }
+
+  async connect(options: RequestOptions = {}): Promise<InitializeResult> {
+    const result: InitializeResult = await this.request('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }, options);
+    this.transport.setProtocolVersion?.(result.protocolVersion);
+    await this.transport.send({ jsonrpc: JSONRPC_VERSION, method: 'notifications/initialized' });
+
+    this.serverInfo = result;
+    console.log(`[MCP Client] Connected to ${result.serverInfo.name} ${result.serverInfo.version}`);
+    return result;
+  }
+
+  getServerInfo(): InitializeResult | null {
+    return this.serverInfo;
+  }
+
+  // Timeouts and cancellation fail with RequestTimeout and RequestCancelled
+  async request<T = any>(method: string, params?: any, options: RequestOptions = {}): Promise<T> {
+    const id = this.nextId++;
+    const call = linkedAbort(options.signal, options.timeoutMs);
+    let response: McpResponse | null;
+    try {
+      response = await this.transport.send({ jsonrpc: JSONRPC_VERSION, id, method, params }, call.signal);
+    } catch (error) {
+      if (!call.signal.aborted) throw error;
+      const reason = abortReason(call.signal);
+      // Lets the server stop work nobody is waiting for
+      this.transport
+        .send({ jsonrpc: JSONRPC_VERSION, method: 'notifications/cancelled', params: { requestId: id, reason: reason.message } })
+        .catch(() => undefined);
+      throw reason instanceof TimeoutError
+        ? new McpProtocolError(ErrorCode.RequestTimeout, `'${method}' timed out after ${reason.ms}ms`, { timeoutMs: reason.ms })
+        : new McpProtocolError(ErrorCode.RequestCancelled, `'${method}' was cancelled: ${reason.message}`);
+    } finally {
+      call.release();
+    }
+    if (!response) {
+      throw new Error(`No response received for '${method}'`);
+    }
+    if (response.error) {
+      throw new McpProtocolError(response.error.code, response.error.message, response.error.data);
+    }
+    return response.result;
+  }
+
+  async listTools(options: RequestOptions = {}): Promise<ToolList> {
+    const tools: ToolList['tools'] = [];
+    let cursor: string | undefined;
+    do {
+      const page: ToolList = await this.request('tools/list', cursor ? { cursor } : {}, options);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return { tools };
+  }
+
+  // Non-standard: redaction policies offered by a SanitizeAI server
+  async listPolicies(): Promise<PolicyList> {
+    return this.request('policies/list');
+  }
+
+  // Non-standard: token usage and estimated cost for a month (defaults to the current one)
+  async getUsage(params: { month?: string; groupBy?: UsageGroupBy } = {}): Promise<UsageReport> {
+    return this.request('usage/get', params);
+  }
+
+  // Non-standard: the caller's organization dictionary (deny and allow lists)
+  async getDictionary(): Promise<DictionaryReport> {
+    return this.request('dictionary/get');
+  }
+
+  async addDictionaryEntries(list: DictionaryList, entries: DictionaryEntryInput[]): Promise<DictionaryReport> {
+    return this.request('dictionary/add', { list, entries });
+  }
+
+  async removeDictionaryEntries(list: DictionaryList, ids: string[]): Promise<DictionaryReport> {
+    return this.request('dictionary/remove', { list, ids });
+  }
+
+  async callToolRaw(toolCall: ToolCall, meta?: Record<string, any>, options: RequestOptions = {}): Promise<CallToolResult> {
+    return this.request('tools/call', {
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+      ...(meta ? { _meta: meta } : {}),
+    }, options);
+  }
+
+  // Calls a tool and returns its structured result, throwing if the tool reported an error
+  async callTool<T = ToolResult>(toolCall: ToolCall, options: CallToolOptions = {}): Promise<T> {
+    const meta: Record<string, any> = {};
+    if (options.provider) meta.provider = options.provider;
+    const requestOptions: RequestOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+
+    let result: CallToolResult;
+    if (options.onProgress || options.onPartial) {
+      const progressToken = `progress-${this.nextId}`;
+      meta.progressToken = progressToken;
+      if (options.onPartial) meta.partial = true;
+      this.progressHandlers.set(progressToken, options.onProgress ?? (() => undefined));
+      if (options.onPartial) this.partialHandlers.set(progressToken, options.onPartial);
+      try {
+        result = await this.callToolRaw(toolCall, meta, requestOptions);
+      } finally {
+        this.progressHandlers.delete(progressToken);
+        this.partialHandlers.delete(progressToken);
+      }
+    } else {
+      result = await this.callToolRaw(toolCall, Object.keys(meta).length ? meta : undefined, requestOptions);
     }
 
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message);
+    const text = result.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    if (result.isError) {
+      throw new Error(text || `Tool '${toolCall.name}' failed`);
+    }
+    if (!result.structuredContent) {
+      throw new Error(`Tool '${toolCall.name}' returned no structured content`);
     }
+    return result.structuredContent as T;
+  }
+
+  // callTool as an async iterator: progress and drafts of the sanitized text while the tool
+  // runs, then the result. Errors are thrown from the loop; leaving it early cancels the call.
+  async *callToolStream<T = ToolResult>(
+    toolCall: ToolCall,
+    options: Pick<CallToolOptions, 'provider' | 'signal' | 'timeoutMs'> = {}
+  ): AsyncGenerator<ToolStreamEvent<T>> {
+    const events: ToolStreamEvent<T>[] = [];
+    let wake: () => void = () => undefined;
+    const push = (event: ToolStreamEvent<T>) => {
+      events.push(event);
+      wake();
+    };
+
+    let draft = '';
+    let finished = false;
+    let failure: any;
+    const call = linkedAbort(options.signal);
+    this.callTool<T>(toolCall, {
+      ...options,
+      signal: call.signal,
+      onProgress: progress => push({ type: 'progress', progress }),
+      onPartial: partial => {
+        draft = draft.slice(0, partial.offset) + partial.text;
+        push({ type: 'partial', partial, draft });
+      },
+    }).then(
+      result => push({ type: 'result', result }),
+      error => {
+        failure = error;
+      }
+    ).then(() => {
+      finished = true;
+      wake();
+    });
+
+    try {
+      while (events.length > 0 || !finished) {
+        if (events.length > 0) {
+          yield events.shift()!;
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+      }
+    } finally {
+      // The consumer broke out of the loop (or threw) before the result
+      if (!finished) call.abort(new Error('Stream closed before the result'));
+      call.release();
+    }
+    if (failure) throw failure;
+  }
 
-    return data.result;
+  async close(): Promise<void> {
+    await this.transport.close();
   }
 }
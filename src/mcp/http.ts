@@ -0,0 +1,251 @@
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { McpLikeServer } from './server';
+import { ErrorCode, JSONRPC_VERSION, McpMessage, McpNotification, McpRequest, McpResponse } from './types';
+import { getFileMaxBytes } from '../lib/files/ingest';
+import { JobQueue } from '../lib/jobs';
+import { createBatchRouter } from './batch';
+import { ApiKeyStore, Principal, extractApiKey, loadApiKeys } from '../lib/auth';
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// CORS_ORIGINS=https://app.example.com,https://admin.example.com (or "*"); unset allows no browser origins
+function corsOrigin(): string[] | string | false {
+  const origins = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+  if (origins.length === 0) return false;
+  return origins.indexOf('*') !== -1 ? '*' : origins;
+}
+
+// sanitize_file sends whole files as base64 (4 bytes per 3), plus the rest of the request
+function mcpBodyLimit(): string | number {
+  return process.env.MCP_MAX_BODY || Math.ceil((getFileMaxBytes() * 4) / 3) + 1024 * 1024;
+}
+
+// MCP_SESSION_TTL_MS (default 30 minutes): sessions without requests or open streams for this long are dropped
+function sessionTtlMs(): number {
+  const value = parseInt(process.env.MCP_SESSION_TTL_MS || '', 10);
+  return value > 0 ? value : 30 * 60_000;
+}
+
+interface HttpSession {
+  // Open GET streams for server notifications
+  streams: Set<Response>;
+  // Sessions belong to the API key that opened them
+  owner?: string;
+  lastSeen: number;
+}
+
+// The MCP endpoint answers with JSON-RPC errors, the REST endpoints with { error }
+function sendError(req: Request, res: Response, status: number, code: number, message: string) {
+  if (req.path.indexOf('/mcp') === 0) {
+    res.status(status).json({ jsonrpc: JSONRPC_VERSION, id: null, error: { code, message } });
+  } else {
+    res.status(status).json({ error: message });
+  }
+}
+
+// Batch entries come straight from the client; anything malformed is left to handleMessage to reject
+function isRequest(message: unknown): message is McpRequest {
+  return message !== null && typeof message === 'object'
+    && 'method' in message && 'id' in message && (message as McpRequest).id !== undefined;
+}
+
+// Streamable HTTP transport: POST for client messages, GET for the server-to-client SSE stream
+export function createHttpApp(server: McpLikeServer, jobs?: JobQueue, apiKeys: ApiKeyStore = loadApiKeys()) {
+  const sessions = new Map<string, HttpSession>();
+
+  // Clients rarely send DELETE, so idle sessions are swept instead
+  const ttlMs = sessionTtlMs();
+  setInterval(() => {
+    const now = Date.now();
+    sessions.forEach((session, id) => {
+      if (session.streams.size === 0 && now - session.lastSeen > ttlMs) sessions.delete(id);
+    });
+  }, Math.min(ttlMs, 60_000)).unref();
+
+  const app = express();
+  app.use(cors({ origin: corsOrigin(), exposedHeaders: ['Mcp-Session-Id'] }));
+
+  // Every endpoint needs a key once keys are configured; preflight requests are answered by cors above
+  app.use((req, res, next) => {
+    if (!apiKeys.enabled) return next();
+    const principal = apiKeys.authenticate(extractApiKey(req.header('authorization'), req.header('x-api-key')));
+    if (!principal) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(req, res, 401, ErrorCode.InvalidRequest, 'Missing or invalid API key');
+      return;
+    }
+    res.locals.principal = principal;
+    next();
+  });
+
+  // Batch jobs parse their own (much larger) bodies, so they are mounted first
+  if (jobs) app.use('/jobs', createBatchRouter(server, jobs));
+  app.use(express.json({ limit: mcpBodyLimit() }));
+
+  const writeEvent = (res: Response, message: McpMessage) => {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  };
+
+  // Broadcast server notifications (e.g. tools/list_changed) to open GET streams
+  server.onNotification(notification => {
+    sessions.forEach(session => session.streams.forEach(res => writeEvent(res, notification)));
+  });
+
+  const resolveSession = (req: Request, res: Response): string | undefined | false => {
+    const sessionId = req.header(SESSION_HEADER);
+    const principal: Principal | undefined = res.locals.principal;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (sessionId && (!session || session.owner !== principal?.id)) {
+      res.status(404).json({
+        jsonrpc: JSONRPC_VERSION,
+        id: null,
+        error: { code: ErrorCode.InvalidRequest, message: 'Unknown or expired session' },
+      });
+      return false;
+    }
+    if (session) session.lastSeen = Date.now();
+    return sessionId;
+  };
+
+  app.post('/mcp', async (req, res) => {
+    const sessionId = resolveSession(req, res);
+    if (sessionId === false) return;
+
+    const batch = Array.isArray(req.body);
+    // JSON-RPC 2.0 answers an empty batch with a single Invalid Request error
+    if (batch && req.body.length === 0) {
+      sendError(req, res, 400, ErrorCode.InvalidRequest, 'Empty batch');
+      return;
+    }
+    const messages: McpMessage[] = batch ? req.body : [req.body];
+    let wantsStream = false;
+
+    try {
+      const requests = messages.filter(isRequest);
+
+      // A new session starts with every successful initialize request
+      const initializing = requests.some(m => m.method === 'initialize');
+      const activeSession = initializing ? randomUUID() : sessionId;
+      if (initializing && activeSession) {
+        sessions.set(activeSession, { streams: new Set(), owner: res.locals.principal?.id, lastSeen: Date.now() });
+        res.setHeader('Mcp-Session-Id', activeSession);
+      }
+
+      // Requests carrying a progress token get an SSE response so notifications can be streamed
+      wantsStream = (req.header('accept') ?? '').indexOf('text/event-stream') !== -1
+        && requests.some(m => m.params?._meta?.progressToken !== undefined);
+
+      const sendNotification = wantsStream
+        ? (notification: McpNotification) => writeEvent(res, notification)
+        : undefined;
+
+      // Requests still running when the caller disconnects are cancelled
+      const disconnect = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) disconnect.abort('Client disconnected');
+      });
+
+      if (wantsStream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+      }
+
+      const responses = (await Promise.all(
+        messages.map(message => server.handleMessage(message, {
+          sessionId: activeSession,
+          sendNotification,
+          principal: res.locals.principal,
+          signal: disconnect.signal,
+        }))
+      )).filter((response): response is McpResponse => response !== null);
+
+      if (wantsStream) {
+        responses.forEach(response => writeEvent(res, response));
+        res.end();
+      } else if (responses.length === 0) {
+        res.status(202).end();
+      } else if (!batch && responses[0].error?.code === ErrorCode.RateLimited) {
+        // Plain HTTP clients and proxies understand 429 better than a JSON-RPC error code
+        const retryAfterMs = responses[0].error.data?.retryAfterMs ?? 60_000;
+        res.status(429).set('Retry-After', String(Math.ceil(retryAfterMs / 1000))).json(responses[0]);
+      } else {
+        res.json(batch ? responses : responses[0]);
+      }
+    } catch (error: any) {
+      const response: McpResponse = {
+        jsonrpc: JSONRPC_VERSION,
+        id: null,
+        error: { code: ErrorCode.InternalError, message: error.message || 'Internal error' },
+      };
+      if (wantsStream) {
+        writeEvent(res, response);
+        res.end();
+      } else {
+        res.status(500).json(response);
+      }
+    }
+  });
+
+  app.get('/mcp', (req, res) => {
+    const sessionId = resolveSession(req, res);
+    if (sessionId === false) return;
+    if (!sessionId || (req.header('accept') ?? '').indexOf('text/event-stream') === -1) {
+      res.status(405).set('Allow', 'POST, DELETE').end();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const session = sessions.get(sessionId)!;
+    session.streams.add(res);
+    req.on('close', () => {
+      session.streams.delete(res);
+      session.lastSeen = Date.now();
+    });
+  });
+
+  app.delete('/mcp', (req, res) => {
+    const sessionId = resolveSession(req, res);
+    if (sessionId === false) return;
+    if (sessionId) {
+      sessions.get(sessionId)!.streams.forEach(stream => stream.end());
+      sessions.delete(sessionId);
+    }
+    res.status(204).end();
+  });
+
+  // Body parser failures (oversized or malformed requests) instead of Express's HTML error page
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(error);
+    if (error.type === 'entity.too.large') {
+      sendError(req, res, 413, ErrorCode.InvalidRequest, `Request body is larger than ${error.limit} bytes`);
+    } else if (error.type === 'entity.parse.failed') {
+      sendError(req, res, 400, ErrorCode.ParseError, 'Invalid JSON');
+    } else {
+      sendError(req, res, error.status || 500, ErrorCode.InternalError, error.message || 'Internal error');
+    }
+  });
+
+  return app;
+}
+
+export function startHttpServer(server: McpLikeServer, port: number, jobs?: JobQueue) {
+  const apiKeys = loadApiKeys();
+  if (apiKeys.enabled) {
+    console.log(`[Auth] ${apiKeys.size} API keys loaded`);
+  } else {
+    console.warn('[Auth] No API keys configured (MCP_API_KEYS or MCP_API_KEYS_FILE); the HTTP server accepts unauthenticated requests');
+  }
+  return createServer(createHttpApp(server, jobs, apiKeys)).listen(port, () =>
+    console.log(`[MCP] SanitizeAIServer listening on :${port}`)
+  );
+}
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import path from 'path';
+import { Detector, DetectorEngine } from '../lib/detectors';
+import type { CompiledDictionary } from '../lib/dictionaries';
+import type { ModelProvider } from '../lib/models';
+import { SanitizeArgs, Tool, ToolResult, sanitizeInputSchema, sanitizeOutputSchema } from './types';
+import type { McpLikeServer } from './server';
+
+// Plugin API for tools. Each file in TOOL_PLUGINS_DIR default-exports a tool (or an array of
+// tools) built with defineSanitizer or defineTool; the built-in tools use the same API.
+
+// Re-exported so plugins outside the repo need nothing but this module
+export { z } from 'zod';
+export { sanitizeInputSchema, sanitizeOutputSchema };
+
+// How a sanitizer finds entities: detectors only (rule-based), a prompt only (LLM-based) or both (hybrid).
+// Redaction, policies, pseudonymization and the leak check are shared by every sanitizer.
+export interface SanitizerSpec {
+  // What the model should identify; without a prompt the model is not called
+  prompt?: string;
+  // Built-in detectors to run, e.g. ['EMAIL', 'PHONE']
+  entityTypes?: string[];
+  // The plugin's own detectors (the pattern needs the global flag)
+  detectors?: Detector[];
+}
+
+// What a tool handler gets besides its validated arguments
+export interface ToolContext {
+  provider: ModelProvider;
+  // Aborted when the call is cancelled or times out
+  signal: AbortSignal;
+  onProgress?: (progress: number, total: number, message: string) => void;
+  // Runs the shared sanitization pipeline with a spec, or with a registered sanitizer's spec by name
+  sanitize(args: SanitizeArgs, sanitizer: SanitizerSpec | string): Promise<ToolResult>;
+  // The caller's organization dictionary, for handlers that find entities themselves
+  dictionary: CompiledDictionary;
+  // API key id of the caller, which owns the vault sessions it creates (undefined without keys)
+  owner?: string;
+  // Records the digest and size of input the handler loaded itself (e.g. a file) in the audit log
+  recordInput(data: string | Buffer): Promise<void>;
+}
+
+export type ToolHandler = (args: any, context: ToolContext) => Promise<any>;
+
+export interface SanitizerDefinition extends SanitizerSpec {
+  name: string;
+  description: string;
+}
+
+// A text sanitizer with the standard sanitize input and output schemas
+export function defineSanitizer({ name, description, ...sanitizer }: SanitizerDefinition): Tool {
+  return { name, description, inputSchema: sanitizeInputSchema, outputSchema: sanitizeOutputSchema, sanitizer };
+}
+
+// A tool with its own schemas and handler; the result must match outputSchema
+export function defineTool(tool: Tool & { handler: ToolHandler }): Tool {
+  return tool;
+}
+
+const TOOL_NAME = /^[a-z][a-z0-9_]{0,63}$/;
+
+// Plugins come from outside the repo, so their shape is checked before they are registered
+function checkTool(value: any): Tool {
+  if (!value || typeof value !== 'object') throw new Error('export is not a tool');
+  const { name, description, inputSchema, outputSchema, sanitizer, handler } = value;
+  if (typeof name !== 'string' || !TOOL_NAME.test(name)) {
+    throw new Error(`Invalid tool name ${JSON.stringify(name)}; use lowercase letters, digits and _`);
+  }
+  if (typeof description !== 'string' || !description) throw new Error(`Tool '${name}' needs a description`);
+  [inputSchema, outputSchema].forEach(schema => {
+    if (typeof schema?.safeParse !== 'function') throw new Error(`Tool '${name}' needs Zod input and output schemas`);
+  });
+  if (!sanitizer === !handler) throw new Error(`Tool '${name}' needs either a sanitizer or a handler`);
+  if (handler && typeof handler !== 'function') throw new Error(`Tool '${name}' handler is not a function`);
+  if (sanitizer) {
+    if (!sanitizer.prompt && !sanitizer.entityTypes?.length && !sanitizer.detectors?.length) {
+      throw new Error(`Tool '${name}' sanitizer needs a prompt, entityTypes or detectors`);
+    }
+    // Rejects patterns without the global flag
+    new DetectorEngine(sanitizer.detectors ?? []);
+  }
+  return value;
+}
+
+// Plugin files are loaded with require(), which the tsx runtime extends to TypeScript
+const PLUGIN_EXTENSIONS = ['.ts', '.js', '.cjs'];
+
+function isPluginFile(file: string): boolean {
+  return PLUGIN_EXTENSIONS.indexOf(path.extname(file)) !== -1 && !/\.d\.ts$/.test(file);
+}
+
+function loadPluginFile(file: string): Tool[] {
+  // Reloads pick up the new version; modules the plugin imports stay cached
+  delete require.cache[require.resolve(file)];
+  const loaded = require(file);
+  const exported = loaded.default ?? loaded;
+  return (Array.isArray(exported) ? exported : [exported]).map(checkTool);
+}
+
+export function getPluginDir(): string | undefined {
+  return process.env.TOOL_PLUGINS_DIR ? path.resolve(process.env.TOOL_PLUGINS_DIR) : undefined;
+}
+
+// TOOL_PLUGINS_WATCH=true|false; on by default outside production
+export function isPluginWatchEnabled(): boolean {
+  const value = process.env.TOOL_PLUGINS_WATCH;
+  return value ? value === 'true' : process.env.NODE_ENV !== 'production';
+}
+
+export class PluginLoader {
+  // Tool names registered from each plugin file
+  private loaded = new Map<string, string[]>();
+  private watcher: fs.FSWatcher | null = null;
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(private server: McpLikeServer, readonly dir: string) {}
+
+  loadAll() {
+    if (!fs.existsSync(this.dir)) throw new Error(`Plugin directory ${this.dir} does not exist`);
+    fs.readdirSync(this.dir).filter(isPluginFile).sort().forEach(file => this.load(path.join(this.dir, file)));
+  }
+
+  // A plugin that fails to load is skipped (or keeps its previous version) so the others still work
+  private load(file: string) {
+    const previous = this.loaded.get(file) ?? [];
+    let tools: Tool[];
+    try {
+      tools = loadPluginFile(file);
+      this.server.replaceTools(previous, tools);
+    } catch (error: any) {
+      console.error(`[Plugins] Failed to load ${path.basename(file)}: ${error.message}`);
+      return;
+    }
+    this.loaded.set(file, tools.map(tool => tool.name));
+    console.log(`[Plugins] Loaded ${path.basename(file)}: ${tools.map(tool => tool.name).join(', ')}`);
+  }
+
+  private unload(file: string) {
+    const previous = this.loaded.get(file);
+    if (!previous) return;
+    this.server.replaceTools(previous, []);
+    this.loaded.delete(file);
+    console.log(`[Plugins] Unloaded ${path.basename(file)}: ${previous.join(', ')}`);
+  }
+
+  // Reloads a file when it changes and unloads it when it is removed
+  watch() {
+    if (this.watcher) return;
+    this.watcher = fs.watch(this.dir, (_event, filename) => {
+      if (!filename || !isPluginFile(String(filename))) return;
+      const file = path.join(this.dir, String(filename));
+      // Editors write files in several steps
+      clearTimeout(this.pending.get(file));
+      this.pending.set(file, setTimeout(() => {
+        this.pending.delete(file);
+        if (fs.existsSync(file)) this.load(file);
+        else this.unload(file);
+      }, 100));
+    });
+    console.log(`[Plugins] Watching ${this.dir} for changes`);
+  }
+
+  close() {
+    this.watcher?.close();
+    this.watcher = null;
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+  }
+}
+
+// Loads TOOL_PLUGINS_DIR into the server when it is set
+export function loadPlugins(server: McpLikeServer, watch: boolean = isPluginWatchEnabled()): PluginLoader | null {
+  const dir = getPluginDir();
+  if (!dir) return null;
+  const loader = new PluginLoader(server, dir);
+  loader.loadAll();
+  if (watch) loader.watch();
+  return loader;
+}
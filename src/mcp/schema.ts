@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export type JsonSchema = Record<string, any>;
+
+export interface ValidationIssue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+// Inline JSON Schema (no $refs) suitable for tools/list and LLM function definitions
+export function toJsonSchema(schema: z.ZodSchema): JsonSchema {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as JsonSchema;
+  return jsonSchema;
+}
+
+export function formatIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    code: issue.code,
+    message: issue.message,
+  }));
+}
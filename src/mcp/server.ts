@@ -1,142 +1,843 @@
-import express from 'express';
-import cors from 'cors';
-import { createServer } from 'http';
-import { z } from 'zod';
-import { Tool, ToolList, McpRequest, McpResponse } from './types';
-import { modelManager, ModelProvider } from '../lib/models';
+import {
+  Tool,
+  ToolList,
+  ToolResult,
+  RestoreResult,
+  PolicyList,
+  CallToolResult,
+  InitializeResult,
+  McpMessage,
+  McpNotification,
+  McpRequest,
+  McpResponse,
+  McpProtocolError,
+  ErrorCode,
+  JSONRPC_VERSION,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  SanitizeArgs,
+  SanitizeFileArgs,
+  SanitizeStructuredArgs,
+  StructuredFinding,
+  StructuredResult,
+  RestoreArgs,
+  UsageReport,
+  DictionaryReport,
+  usageRequestSchema,
+  dictionaryAddRequestSchema,
+  dictionaryRemoveRequestSchema,
+  sanitizeFileInputSchema,
+  sanitizeFileOutputSchema,
+  sanitizeStructuredInputSchema,
+  sanitizeStructuredOutputSchema,
+  restoreInputSchema,
+  restoreOutputSchema,
+} from './types';
+import { toJsonSchema, formatIssues } from './schema';
+import { SanitizerSpec, ToolContext, defineSanitizer, defineTool } from './plugins';
+import { ModelProvider, isProviderInScope } from '../lib/models';
+import { modelProviderSchema } from '../lib/providers';
+import {
+  Principal,
+  canEditDictionary,
+  canUseProvider,
+  canUseTool,
+  isToolInScope,
+  organizationFor,
+  resolveProvider,
+  usageClientFor,
+} from '../lib/auth';
+import { RateLimitError, UsageClient, UsageMeter, currentMonth, resolveLimits, usageLedger } from '../lib/usage';
+import { AuditEvent, auditDigest, auditLog, isAuditEnabled } from '../lib/audit';
+import { DetectorEngine, DetectorMatch, detectorEngine, resolveOverlaps } from '../lib/detectors';
+import { PlaceholderFn, applyRedactions, sourceOffset, typedPlaceholder } from '../lib/redaction';
+import { extractEntities } from '../lib/extraction';
+import { LinkedAbort, TimeoutError, abortReason, linkedAbort } from '../lib/resilience';
+import { tokenVault } from '../lib/vault';
+import { CompiledDictionary, dictionaryStore } from '../lib/dictionaries';
+import { resolveLocale } from '../lib/locales';
+import { policyManager, policyRuleSchema, createPolicyPlaceholder, resolveRule } from '../lib/policies';
+import { compileFieldPath, matchesFieldPath, parseStructured } from '../lib/structured';
+import { formatPath } from '../lib/files/json';
+import { applyFindingsToParts, joinParts, loadFileInput, sanitizedFilename } from '../lib/files/ingest';
+import { VerificationOutcome, findValue, getVerificationConfig, summarizeIssues, verifySanitization } from '../lib/verification';
 
-const PORT = Number(process.env.MCP_PORT ?? 9003);
+const SERVER_INFO = { name: 'sanitize-ai', version: '1.0.0' };
 
-// Custom MCP-like server implementation
-class McpLikeServer {
+// Per-request hooks supplied by the transport (stdio, Streamable HTTP)
+export interface RequestContext {
+  sessionId?: string;
+  // Authenticated caller (HTTP with API keys); tools and providers are limited to its scopes
+  principal?: Principal;
+  // Bills tool calls to this client without applying its rate limits (batch items run for the job owner)
+  billing?: UsageClient;
+  // Organization whose dictionary applies, when there is no principal to take it from (batch items)
+  organization?: string;
+  // Provider scope, when there is no principal to take it from (batch items)
+  providers?: string[];
+  // Tool scope, when there is no principal to take it from (batch items)
+  tools?: string[];
+  // API key id that owns vault sessions, when there is no principal to take it from (batch items)
+  owner?: string;
+  // Aborted by the transport when the caller goes away (closed HTTP connection, cancelled batch job)
+  signal?: AbortSignal;
+  sendNotification?: (notification: McpNotification) => void;
+}
+
+type NotificationListener = (notification: McpNotification) => void;
+
+type ProgressReporter = (progress: number, total: number, message: string) => void;
+
+// Receives the whole draft each time; the transport sends only what changed
+type PartialReporter = (draft: string, settled: number, total: number) => void;
+
+// Per-call state handed down to the tool implementations
+interface ToolRun {
+  onProgress?: ProgressReporter;
+  onPartial?: PartialReporter;
+  // Aborted on cancellation and when TOOL_TIMEOUT_MS runs out
+  signal: AbortSignal;
+  usage: UsageMeter;
+  audit: AuditEvent;
+  // The caller's organization dictionary (deny and allow lists)
+  dictionary: CompiledDictionary;
+  // The caller's provider scope; fallback and verifier models stay within it
+  allowedProviders?: string[];
+  // The caller's tool scope; sanitizers used by name (sanitize_file profiles) stay within it
+  allowedTools?: string[];
+  // API key id of the caller, which owns its vault sessions
+  owner?: string;
+}
+
+// Model Context Protocol server (JSON-RPC 2.0, transport-agnostic)
+export class McpLikeServer {
   private tools: Tool[] = [];
+  private listeners = new Set<NotificationListener>();
+  // Requests that notifications/cancelled can still stop
+  private inFlight = new Map<string, LinkedAbort>();
 
   addTool(tool: Tool) {
-    this.tools.push(tool);
+    this.replaceTools([], [tool]);
   }
 
-  async handleRequest(request: McpRequest): Promise<McpResponse> {
+  // Swaps tools in one step (plugin reloads), with a single list_changed notification
+  replaceTools(remove: string[], add: Tool[]) {
+    const kept = this.tools.filter(tool => remove.indexOf(tool.name) === -1);
+    add.forEach((tool, i) => {
+      if (kept.some(other => other.name === tool.name) || add.findIndex(other => other.name === tool.name) !== i) {
+        throw new Error(`Tool '${tool.name}' is already registered`);
+      }
+    });
+    this.tools = kept.concat(add);
+    this.notify('notifications/tools/list_changed');
+  }
+
+  // Server-initiated notifications, broadcast to every connected transport
+  onNotification(listener: NotificationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(method: string, params?: any) {
+    const notification: McpNotification = { jsonrpc: JSONRPC_VERSION, method, params };
+    this.listeners.forEach(listener => listener(notification));
+  }
+
+  // Returns the response for requests, or null for notifications and client responses
+  async handleMessage(message: McpMessage, context: RequestContext = {}): Promise<McpResponse | null> {
+    if (!message || typeof message !== 'object' || message.jsonrpc !== JSONRPC_VERSION) {
+      return this.errorResponse(null, new McpProtocolError(ErrorCode.InvalidRequest, 'Invalid JSON-RPC message'));
+    }
+    if (!('method' in message)) return null;
+    if (!('id' in message) || message.id === undefined) {
+      this.handleNotification(message, context);
+      return null;
+    }
+
+    const key = inFlightKey(context, message.id);
+    const request = linkedAbort(context.signal);
+    this.inFlight.set(key, request);
     try {
-      switch (request.method) {
-        case 'tools/list':
-          return {
-            result: {
-              tools: this.tools.map(tool => ({
-                name: tool.name,
-                description: tool.description,
-                inputSchema: tool.inputSchema,
-                outputSchema: tool.outputSchema,
-              }))
-            }
-          };
-
-        case 'tools/call':
-          const { name, arguments: args, provider = 'openai' } = request.params;
-          const tool = this.tools.find(t => t.name === name);
-          
-          if (!tool) {
-            return {
-              error: {
-                code: -32601,
-                message: `Tool '${name}' not found`
-              }
-            };
-          }
-
-          // Execute the tool with the specified provider
-          const result = await this.executeTool(tool, args, provider);
-          return { result };
-
-        default:
-          return {
-            error: {
-              code: -32601,
-              message: `Method '${request.method}' not found`
-            }
-          };
+      const result = await this.handleRequest(message as McpRequest, { ...context, signal: request.signal });
+      return { jsonrpc: JSONRPC_VERSION, id: message.id, result };
+    } catch (error: any) {
+      // The caller has stopped waiting, so cancelled requests get no response
+      if (error instanceof McpProtocolError && error.code === ErrorCode.RequestCancelled) return null;
+      return this.errorResponse(message.id, error);
+    } finally {
+      if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+      request.release();
+    }
+  }
+
+  private errorResponse(id: McpResponse['id'], error: any): McpResponse {
+    const protocolError = error instanceof McpProtocolError
+      ? error
+      : new McpProtocolError(ErrorCode.InternalError, error?.message || 'Internal error');
+    return {
+      jsonrpc: JSONRPC_VERSION,
+      id,
+      error: { code: protocolError.code, message: protocolError.message, data: protocolError.data },
+    };
+  }
+
+  private handleNotification(notification: McpNotification, context: RequestContext) {
+    if (notification.method === 'notifications/cancelled') {
+      const { requestId, reason } = notification.params ?? {};
+      this.inFlight.get(inFlightKey(context, requestId))?.abort(reason || 'Cancelled by the client');
+    }
+    // notifications/initialized and unknown notifications need no action
+  }
+
+  private async handleRequest(request: McpRequest, context: RequestContext): Promise<any> {
+    switch (request.method) {
+      case 'initialize':
+        return this.initialize(request.params?.protocolVersion);
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return this.listTools(context.principal);
+
+      case 'tools/call':
+        return this.callTool(request.params ?? {}, context);
+
+      case 'policies/list':
+        return this.listPolicies();
+
+      case 'usage/get':
+        return this.getUsage(request.params ?? {}, context.principal);
+
+      case 'dictionary/get':
+        return this.getDictionary(context);
+
+      case 'dictionary/add':
+      case 'dictionary/remove':
+        return this.updateDictionary(request.method, request.params ?? {}, context);
+
+      default:
+        throw new McpProtocolError(ErrorCode.MethodNotFound, `Method '${request.method}' not found`);
+    }
+  }
+
+  private initialize(requestedVersion?: string): InitializeResult {
+    const protocolVersion = requestedVersion && SUPPORTED_PROTOCOL_VERSIONS.indexOf(requestedVersion) !== -1
+      ? requestedVersion
+      : LATEST_PROTOCOL_VERSION;
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: true },
+        // Non-standard methods and notifications offered by this server
+        experimental: { policies: {}, usage: {}, partialOutput: {}, dictionary: {} },
+      },
+      serverInfo: SERVER_INFO,
+      instructions: 'Sanitization tools that redact or pseudonymize sensitive data in text. Pass a model provider in params._meta.provider to choose the LLM.',
+    };
+  }
+
+  private listTools(principal?: Principal): ToolList {
+    return {
+      tools: this.tools.filter(tool => canUseTool(principal, tool.name)).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toJsonSchema(tool.inputSchema),
+        outputSchema: toJsonSchema(tool.outputSchema),
+      })),
+    };
+  }
+
+  private async listPolicies(): Promise<PolicyList> {
+    const policies = await policyManager.list();
+    return {
+      policies: policies.map(policy => {
+        const rules: Record<string, string> = {};
+        Object.keys(policy.rules).forEach(entityType => {
+          rules[entityType] = policy.rules[entityType].action;
+        });
+        return {
+          name: policy.name,
+          description: policy.description,
+          defaultAction: policy.defaultRule.action,
+          rules,
+        };
+      }),
+    };
+  }
+
+  // Monthly usage visible to the caller, plus its own limits
+  private async getUsage(params: any, principal?: Principal): Promise<UsageReport> {
+    const parsed = usageRequestSchema.safeParse(params);
+    if (!parsed.success) {
+      throw new McpProtocolError(ErrorCode.InvalidParams, 'Invalid usage request', { issues: formatIssues(parsed.error) });
+    }
+
+    const { month = currentMonth(), groupBy } = parsed.data;
+    const { client, team } = usageClientFor(principal);
+    const scope = principal?.usage ?? 'all';
+    const { totals, groups } = await usageLedger.report(month, groupBy, record =>
+      scope === 'all' || (scope === 'team' ? record.team === team : record.client === client)
+    );
+    return {
+      month,
+      groupBy,
+      scope,
+      totals,
+      groups,
+      limits: { client, team, ...resolveLimits(principal?.limits), tokensToday: await usageLedger.tokensToday(client) },
+    };
+  }
+
+  private async getDictionary(context: RequestContext): Promise<DictionaryReport> {
+    const dictionary = await dictionaryStore.get(context.organization ?? organizationFor(context.principal));
+    return { ...dictionary, editable: canEditDictionary(context.principal) };
+  }
+
+  private async updateDictionary(method: string, params: any, context: RequestContext): Promise<DictionaryReport> {
+    const organization = context.organization ?? organizationFor(context.principal);
+    if (!canEditDictionary(context.principal)) {
+      throw new McpProtocolError(ErrorCode.InvalidRequest, context.principal
+        ? `API key '${context.principal.id}' may not edit the dictionary of '${organization}'`
+        : 'Editing a dictionary requires an API key with dictionary write access');
+    }
+
+    let dictionary;
+    if (method === 'dictionary/add') {
+      const parsed = dictionaryAddRequestSchema.safeParse(params);
+      if (!parsed.success) {
+        throw new McpProtocolError(ErrorCode.InvalidParams, 'Invalid dictionary entries', { issues: formatIssues(parsed.error) });
+      }
+      dictionary = await dictionaryStore.add(organization, parsed.data.list, parsed.data.entries);
+      console.log(`[Dictionary] ${organization}: added ${parsed.data.entries.length} ${parsed.data.list} entries`);
+    } else {
+      const parsed = dictionaryRemoveRequestSchema.safeParse(params);
+      if (!parsed.success) {
+        throw new McpProtocolError(ErrorCode.InvalidParams, 'Invalid dictionary request', { issues: formatIssues(parsed.error) });
       }
+      try {
+        dictionary = await dictionaryStore.remove(organization, parsed.data.list, parsed.data.ids);
+      } catch (error: any) {
+        throw new McpProtocolError(ErrorCode.InvalidParams, error.message);
+      }
+      console.log(`[Dictionary] ${organization}: removed ${parsed.data.ids.length} ${parsed.data.list} entries`);
+    }
+    return { ...dictionary, editable: true };
+  }
+
+  // Every call is audited, including ones refused before the tool runs
+  private async callTool(params: any, context: RequestContext): Promise<CallToolResult> {
+    const started = Date.now();
+    const audit: AuditEvent = {
+      ...(context.billing ?? usageClientFor(context.principal)),
+      tool: String(params?.name),
+      outcome: 'rejected',
+    };
+
+    let response: CallToolResult | undefined;
+    let failure: any;
+    try {
+      response = await this.runToolCall(params, context, audit);
+      audit.outcome = response.isError ? 'error' : 'ok';
     } catch (error: any) {
-      return {
-        error: {
-          code: -32603,
-          message: error.message || 'Internal error'
+      failure = error;
+      audit.errorCode = error instanceof McpProtocolError ? error.code : ErrorCode.InternalError;
+      if (audit.errorCode === ErrorCode.RequestCancelled) audit.outcome = 'cancelled';
+      if (audit.errorCode === ErrorCode.RequestTimeout) audit.outcome = 'error';
+    }
+    audit.durationMs = Date.now() - started;
+
+    if (isAuditEnabled()) {
+      try {
+        await auditLog.append(audit);
+      } catch (error: any) {
+        // Results are withheld when they cannot be audited
+        console.error('[Audit] Failed to write audit entry:', error.message);
+        throw new McpProtocolError(ErrorCode.InternalError, 'Audit log unavailable');
+      }
+    }
+    if (failure) throw failure;
+    return response!;
+  }
+
+  private async runToolCall(params: any, context: RequestContext, audit: AuditEvent): Promise<CallToolResult> {
+    const { name, arguments: args = {}, _meta } = params;
+    // Tools outside the caller's scope are hidden from tools/list, so they are reported as unknown
+    const tool = this.tools.find(t => t.name === name && canUseTool(context.principal, t.name));
+    if (!tool) {
+      throw new McpProtocolError(ErrorCode.InvalidParams, `Tool '${name}' not found`);
+    }
+
+    const parsedArgs = tool.inputSchema.safeParse(args);
+    if (!parsedArgs.success) {
+      throw new McpProtocolError(ErrorCode.InvalidParams, `Invalid arguments for tool '${name}'`, {
+        issues: formatIssues(parsedArgs.error),
+      });
+    }
+
+    const requestedProvider = modelProviderSchema.optional().safeParse(_meta?.provider);
+    if (!requestedProvider.success) {
+      throw new McpProtocolError(ErrorCode.InvalidParams, `Unknown model provider '${_meta.provider}'`, {
+        issues: formatIssues(requestedProvider.error),
+      });
+    }
+    const provider: ModelProvider = resolveProvider(context.principal, requestedProvider.data);
+    if (!canUseProvider(context.principal, provider)) {
+      throw new McpProtocolError(ErrorCode.InvalidParams, `API key '${context.principal!.id}' may not use provider '${provider}'`);
+    }
+
+    const input: string | undefined = parsedArgs.data.text ?? parsedArgs.data.data;
+    Object.assign(audit, {
+      provider,
+      policy: parsedArgs.data.policy,
+      mode: parsedArgs.data.mode,
+      // sanitize_file replaces these with the digest of the file it loads
+      inputHash: input !== undefined ? await auditDigest(input) : undefined,
+      inputBytes: input !== undefined ? Buffer.byteLength(input) : undefined,
+    });
+
+    // Progress is only sent when the caller asked for it with a progress token
+    const progressToken = _meta?.progressToken;
+    const onProgress: ProgressReporter | undefined = progressToken !== undefined && context.sendNotification
+      ? (progress, total, message) =>
+          context.sendNotification!({
+            jsonrpc: JSONRPC_VERSION,
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          })
+      : undefined;
+
+    // Drafts of the sanitized text are sent as they grow when the caller also sets _meta.partial
+    let sentDraft = '';
+    const onPartial: PartialReporter | undefined = onProgress && _meta?.partial === true
+      ? (draft, settled, total) => {
+          const offset = commonPrefixLength(sentDraft, draft);
+          if (offset === draft.length && offset === sentDraft.length) return;
+          sentDraft = draft;
+          context.sendNotification!({
+            jsonrpc: JSONRPC_VERSION,
+            method: 'notifications/tools/partial',
+            params: { progressToken, offset, text: draft.slice(offset), settled, total },
+          });
         }
+      : undefined;
+
+    // Limits apply to the caller (API key, or "anonymous"); batch items were admitted when the job was submitted
+    const billing = context.billing ?? usageClientFor(context.principal);
+    if (!context.billing) {
+      try {
+        await usageLedger.admit(billing.client, resolveLimits(context.principal?.limits));
+      } catch (error: any) {
+        if (!(error instanceof RateLimitError)) throw error;
+        throw new McpProtocolError(ErrorCode.RateLimited, error.message, { retryAfterMs: error.retryAfterMs });
+      }
+    }
+
+    const dictionary = await dictionaryStore.compiled(context.organization ?? organizationFor(context.principal));
+
+    let result: unknown;
+    const usage = new UsageMeter();
+    const execution = linkedAbort(context.signal, getToolTimeoutMs());
+    let ok = false;
+    try {
+      result = await this.executeTool(tool, parsedArgs.data, provider, {
+        onProgress,
+        onPartial,
+        signal: execution.signal,
+        usage,
+        audit,
+        dictionary,
+        allowedProviders: context.principal?.providers ?? context.providers,
+        allowedTools: context.principal?.tools ?? context.tools,
+        owner: context.principal?.id ?? context.owner,
+      });
+      ok = true;
+    } catch (error: any) {
+      // Cancellation and timeouts are protocol errors with their own codes
+      if (execution.signal.aborted) throw abortedCallError(name, execution.signal);
+      // Tool failures are reported in the result so the model/host can see them
+      return {
+        content: [{ type: 'text', text: error.message || 'Tool execution failed' }],
+        isError: true,
       };
+    } finally {
+      execution.release();
+      audit.models = usage.calls
+        .map(call => `${call.provider}:${call.model}`)
+        .filter((model, i, models) => models.indexOf(model) === i);
+      // Failed calls are recorded too: their model calls were still billed
+      await usageLedger
+        .record({ ...billing, tool: name, ok, ...usage.summary(), calls: usage.calls })
+        .catch(error => console.error('[Usage] Failed to record usage:', error.message));
+    }
+
+    // A result that breaks the advertised outputSchema is a server bug, not a tool failure
+    const parsedResult = tool.outputSchema.safeParse(result);
+    if (!parsedResult.success) {
+      throw new McpProtocolError(ErrorCode.InternalError, `Tool '${name}' returned invalid output`, {
+        issues: formatIssues(parsedResult.error),
+      });
     }
+    Object.assign(audit, await this.auditResult(parsedResult.data));
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(parsedResult.data) }],
+      structuredContent: parsedResult.data,
+    };
   }
 
-  private async executeTool(tool: Tool, args: any, provider: ModelProvider = 'openai') {
-    // For our sanitization tools, we'll use the model manager
-    const systemPrompts: Record<string, string> = {
-      'anonymize_pii': 'You are a PII anonymiser. Replace all personally identifiable information with appropriate placeholders while maintaining the structure and readability of the text. Return only the anonymised text.',
-      'redact_financial': 'You are a financial-data redactor. Replace all financial information like bank account numbers, credit card numbers, IBANs, crypto wallet addresses, and sort codes with appropriate placeholders while maintaining the structure and readability of the text. Return only the redacted text.',
-      'redact_medical': 'You are a medical data redactor. Replace all medical information like patient IDs, medical record numbers, diagnoses, medications, and other sensitive health information with appropriate placeholders while maintaining the structure and readability of the text. Return only the redacted text.',
-      'general_sanitize': 'You are a general data sanitizer. Replace any sensitive or confidential information with appropriate placeholders while maintaining the structure and readability of the text. This includes but is not limited to names, addresses, phone numbers, emails, IDs, and other personally identifiable information. Return only the sanitized text.'
+  // Counts and digests only: entity values and output text never reach the audit log
+  private async auditResult(result: any): Promise<Partial<AuditEvent>> {
+    const output: string | Buffer | undefined = result.file
+      ? Buffer.from(result.file.base64, 'base64')
+      : result.sanitizedText ?? result.sanitizedData ?? result.restoredText;
+    const entityCounts: Record<string, number> = {};
+    (result.findings ?? []).forEach((finding: { entityType: string }) => {
+      entityCounts[finding.entityType] = (entityCounts[finding.entityType] ?? 0) + 1;
+    });
+    const verification: ToolResult['verification'] = result.verification;
+
+    return {
+      policy: result.policy,
+      outputHash: output !== undefined ? await auditDigest(output) : undefined,
+      findings: result.findings?.length,
+      entityCounts: result.findings ? entityCounts : undefined,
+      verification: verification
+        ? { passed: verification.passed, attempts: verification.attempts, issues: verification.issues.length }
+        : undefined,
     };
+  }
 
-    const systemPrompt = systemPrompts[tool.name] || systemPrompts['general_sanitize'];
-    
-    const sanitizedText = await modelManager.generateText(
+  private executeTool(tool: Tool, args: any, provider: ModelProvider, run: ToolRun): Promise<unknown> {
+    const context: ToolContext = {
       provider,
-      [{ role: 'user', content: args.text }],
-      systemPrompt
-    );
+      signal: run.signal,
+      onProgress: run.onProgress,
+      sanitize: (sanitizeArgs, sanitizer) => typeof sanitizer === 'string'
+        ? this.sanitize(sanitizer, this.sanitizerSpec(sanitizer, run.allowedTools), sanitizeArgs, provider, run)
+        : this.sanitize(tool.name, sanitizer, sanitizeArgs, provider, run),
+      dictionary: run.dictionary,
+      owner: run.owner,
+      recordInput: async data => {
+        run.audit.inputHash = await auditDigest(data);
+        run.audit.inputBytes = Buffer.byteLength(data);
+      },
+    };
+    return tool.handler ? tool.handler(args, context) : context.sanitize(args as SanitizeArgs, tool.sanitizer!);
+  }
 
-    return { sanitizedText };
+  // Sanitizers outside the caller's tool scope are reported as unknown, like in tools/call
+  private sanitizerSpec(name: string, allowedTools?: string[]): SanitizerSpec {
+    const sanitizers = this.tools.filter(t => t.sanitizer && isToolInScope(allowedTools, t.name));
+    const tool = sanitizers.find(t => t.name === name);
+    if (!tool) {
+      const names = sanitizers.map(t => t.name);
+      throw new Error(`Unknown profile '${name}'; expected one of ${names.join(', ')}`);
+    }
+    return tool.sanitizer!;
+  }
+
+  // Detectors and model extraction, then local redaction and the leak check
+  private async sanitize(
+    toolName: string,
+    spec: SanitizerSpec,
+    args: SanitizeArgs,
+    provider: ModelProvider,
+    run: ToolRun
+  ): Promise<ToolResult> {
+    const { text, mode = 'redact', sessionId, keepEntityTypes = [], policy: policyName } = args;
+    const policy = await policyManager.get(policyName);
+    const locale = resolveLocale(args.locale, text);
+    const ownDetectors = spec.detectors?.length ? new DetectorEngine(spec.detectors) : null;
+    // Tools without detectors of their own are checked against every built-in detector
+    const entityTypes = spec.entityTypes ?? (ownDetectors ? [] : undefined);
+    const isKept = (entityType: string) =>
+      keepEntityTypes.indexOf(entityType) !== -1 || resolveRule(policy, entityType).action === 'keep';
+    const verification = getVerificationConfig();
+    const session = mode === 'pseudonymize'
+      ? await tokenVault.getSession(sessionId ?? tokenVault.createSessionId(), run.owner)
+      : null;
+    const placeholder = session
+      // Pseudonymization replaces every redacted entity with a reversible vault token
+      ? (match: DetectorMatch) => session.tokenFor(match.entityType, match.value)
+      : await createPolicyPlaceholder(policy);
+    // Drafts must not hand out vault tokens: numbering follows the order tokens are first requested
+    const draftPlaceholder = session ? typedPlaceholder : placeholder;
+
+    // The organization's deny entries are always redacted, and allowed text never is
+    const denied = run.dictionary.denied(text);
+    const allowed = run.dictionary.allowedSpans(text);
+    const applyDictionary = (found: DetectorMatch[]) => run.dictionary.apply(found, denied, allowed);
+
+    // Values the verifier caught on a previous attempt are redacted on the next one
+    let leaked: DetectorMatch[] = [];
+    for (let attempt = 1; ; attempt++) {
+      let matches = applyDictionary(resolveOverlaps(
+        (spec.entityTypes?.length ? detectorEngine.detect(text, spec.entityTypes, locale) : [])
+          .concat(ownDetectors ? ownDetectors.detect(text, undefined, locale) : [])
+      ));
+      let modelUsed: string | undefined;
+
+      if (spec.prompt) {
+        // The model only sees text that the detectors have already masked
+        const masked = applyRedactions(text, matches);
+        const detected = matches;
+        const extraction = await extractEntities(provider, text, spec.prompt, masked.sanitizedText, {
+          onChunk: (completed, total) => run.onProgress?.(completed, total, `Sanitized chunk ${completed} of ${total}`),
+          signal: run.signal,
+          // Only the first attempt is streamed; retries would restart the draft
+          onPartial: run.onPartial && attempt === 1
+            ? partial => {
+                const draftMatches = applyDictionary(
+                  resolveOverlaps(detected.concat(partial.matches)).filter(match => !isKept(match.entityType))
+                );
+                // Stop short of an entity that the settled offset cuts in two
+                const end = draftMatches.reduce(
+                  (end, match) => (match.start < end && match.end > end ? match.start : end),
+                  sourceOffset(masked.findings, partial.settled)
+                );
+                const draft = applyRedactions(text.slice(0, end), draftMatches.filter(match => match.end <= end), draftPlaceholder);
+                run.onPartial!(draft.sanitizedText, end, text.length);
+              }
+            : undefined,
+          usage: run.usage,
+          locale,
+          allowedProviders: run.allowedProviders,
+        });
+        modelUsed = extraction.provider;
+        matches = matches.concat(extraction.matches);
+      }
+      matches = applyDictionary(resolveOverlaps(matches.concat(leaked)).filter(match => !isKept(match.entityType)));
+
+      const result: ToolResult = {
+        ...applyRedactions(text, matches, placeholder),
+        policy: policy.name,
+        sessionId: session?.id,
+        provider: modelUsed,
+        locale,
+      };
+      if (verification.mode === 'off') {
+        if (session) await tokenVault.save(session);
+        return { ...result, usage: run.usage.summary() };
+      }
+
+      const { report, leaks } = await verifySanitization({
+        text,
+        sanitizedText: result.sanitizedText,
+        findings: result.findings,
+        entityTypes,
+        isKept,
+        allowedSpans: sanitized => run.dictionary.allowedSpans(sanitized),
+        locale,
+        // A verifier outside the caller's provider scope is replaced by the tool's own provider
+        provider: verification.provider && !isProviderInScope(run.allowedProviders, verification.provider)
+          ? provider
+          : verification.provider,
+        allowedProviders: run.allowedProviders,
+        usage: run.usage,
+        signal: run.signal,
+      });
+      report.attempts = attempt;
+
+      if (!report.passed && verification.mode === 'retry' && attempt <= verification.maxRetries) {
+        console.warn(`[Verify] ${toolName} attempt ${attempt} failed (${summarizeIssues(report.issues)}); retrying`);
+        leaked = leaked.concat(locateLeaks(text, leaks));
+        continue;
+      }
+      if (!report.passed && verification.mode !== 'report') {
+        throw new Error(`Verification failed: ${summarizeIssues(report.issues)}`);
+      }
+
+      if (session) await tokenVault.save(session);
+      return { ...result, verification: report, usage: run.usage.summary() };
+    }
   }
 }
 
+// TOOL_TIMEOUT_MS caps each tools/call on the server (unset = no limit beyond the model timeouts)
+function getToolTimeoutMs(): number | undefined {
+  const value = parseInt(process.env.TOOL_TIMEOUT_MS || '', 10);
+  return value > 0 ? value : undefined;
+}
+
+// notifications/cancelled names a request id, which is only unique per caller and session
+function inFlightKey(context: RequestContext, id: unknown): string {
+  return [context.principal?.id ?? '', context.sessionId ?? '', String(id)].join('\u0000');
+}
+
+function abortedCallError(tool: string, signal: AbortSignal): McpProtocolError {
+  const reason = abortReason(signal);
+  return reason instanceof TimeoutError
+    ? new McpProtocolError(ErrorCode.RequestTimeout, `Tool '${tool}' did not finish within ${reason.ms}ms`, { timeoutMs: reason.ms })
+    : new McpProtocolError(ErrorCode.RequestCancelled, `Tool '${tool}' was cancelled: ${reason.message}`);
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a.charCodeAt(length) === b.charCodeAt(length)) length++;
+  return length;
+}
+
+// Every whole-token occurrence of a leaked value in the input, case-insensitively
+function locateLeaks(text: string, leaks: VerificationOutcome['leaks']): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  leaks.forEach(leak => {
+    // Only whole tokens: a leaked "Ann" must not rewrite "annual"
+    findValue(text, leak.value).forEach(index => {
+      matches.push({
+        entityType: leak.entityType,
+        value: text.slice(index, index + leak.value.length),
+        start: index,
+        end: index + leak.value.length,
+        detector: 'verifier',
+        confidence: 1,
+      });
+    });
+  });
+  return matches;
+}
+
+// Extracts the file's text, sanitizes it with the chosen profile and writes the result back in the same format
+async function sanitizeFile(args: SanitizeFileArgs, context: ToolContext): Promise<ToolResult> {
+  const { file, profile = 'general_sanitize', ...options } = args;
+  const loaded = await loadFileInput(file);
+  await context.recordInput(loaded.data);
+  const document = await loaded.handler.parse(loaded.data);
+  const result = await context.sanitize({ ...options, text: joinParts(document.parts) }, profile);
+
+  const output = await document.rebuild(applyFindingsToParts(document.parts, result.findings));
+  console.log(`[Files] Sanitized ${loaded.filename} (${loaded.handler.format}, ${document.parts.length} parts, ${result.findings.length} findings)`);
+  return {
+    ...result,
+    file: {
+      filename: sanitizedFilename(loaded.filename),
+      format: loaded.handler.format,
+      mimeType: loaded.handler.mimeType,
+      size: output.length,
+      base64: output.toString('base64'),
+    },
+  };
+}
+
+// Field rules and detectors applied to each string value; keys, numbers and layout are never touched
+async function sanitizeStructured(args: SanitizeStructuredArgs, context: ToolContext): Promise<StructuredResult> {
+  const { data, format, fields = [], entityTypes, mode = 'redact', sessionId, keepEntityTypes = [], policy: policyName } = args;
+  const policy = await policyManager.get(policyName);
+  const document = parseStructured(data, format);
+  // Detected from the values, not the keys or column names
+  const locale = resolveLocale(args.locale, document.leaves.map(leaf => leaf.value).join('\n'));
+  const rules = fields.map(field => ({ ...field, segments: compileFieldPath(field.path) }));
+  const isKept = (entityType: string) =>
+    keepEntityTypes.indexOf(entityType) !== -1 || resolveRule(policy, entityType).action === 'keep';
+  const session = mode === 'pseudonymize'
+    ? await tokenVault.getSession(sessionId ?? tokenVault.createSessionId(), context.owner)
+    : null;
+  const defaultPlaceholder: PlaceholderFn = session
+    ? match => session.tokenFor(match.entityType, match.value)
+    : await createPolicyPlaceholder(policy);
+  // A field's own action wins over both the policy and pseudonymization
+  const fieldPlaceholders = await Promise.all(rules.map(rule =>
+    rule.action
+      ? createPolicyPlaceholder({ ...policy, defaultRule: policyRuleSchema.parse({ action: rule.action }), rules: {} })
+      : null
+  ));
+
+  const used = rules.map(() => false);
+  const findings: StructuredFinding[] = [];
+  const values = document.leaves.map(leaf => {
+    const index = rules.findIndex(rule => matchesFieldPath(rule.segments, leaf.path));
+    const rule = rules[index];
+    if (rule) used[index] = true;
+    if (!leaf.value || rule?.action === 'keep') return leaf.value;
+
+    let matches: DetectorMatch[] = rule?.entityType
+      ? [{ entityType: rule.entityType, value: leaf.value, start: 0, end: leaf.value.length, detector: 'field_rule', confidence: 1 }]
+      : detectorEngine.detect(leaf.value, entityTypes, locale);
+    if (!rule?.action) matches = matches.filter(match => !isKept(match.entityType));
+    // A field rule with an entity type covers the whole value; elsewhere the dictionary applies
+    if (!rule?.entityType) {
+      const { dictionary } = context;
+      matches = dictionary.apply(matches, dictionary.denied(leaf.value), dictionary.allowedSpans(leaf.value));
+    }
+
+    const redacted = applyRedactions(leaf.value, matches, fieldPlaceholders[index] ?? defaultPlaceholder);
+    const path = formatPath(leaf.path);
+    redacted.findings.forEach(finding => findings.push({ ...finding, path }));
+    return redacted.sanitizedText;
+  });
+
+  const sanitizedData = document.rebuild(values);
+  if (session) await tokenVault.save(session);
+  return {
+    sanitizedData,
+    format: document.format,
+    findings,
+    policy: policy.name,
+    sessionId: session?.id,
+    unmatchedFields: rules.filter((_, i) => !used[i]).map(rule => rule.path),
+    locale,
+  };
+}
+
+async function restoreText(args: RestoreArgs, context: ToolContext): Promise<RestoreResult> {
+  const restored = (await tokenVault.getSession(args.sessionId, context.owner)).restore(args.text);
+  return { restoredText: restored.text, restored: restored.restored };
+}
+
 // Create server instance
-const server = new McpLikeServer();
+export const server = new McpLikeServer();
 
-// Register sanitization tools
-server.addTool({
+// Built-in tools use the plugin API too; TOOL_PLUGINS_DIR adds more (see src/mcp/plugins.ts)
+// For the sanitizers the model only identifies entities; redaction happens locally
+server.addTool(defineSanitizer({
   name: 'anonymize_pii',
   description: 'Anonymises names, emails, phone numbers, addresses, dates of birth, etc.',
-  inputSchema: z.object({ text: z.string() }),
-  outputSchema: z.object({ sanitizedText: z.string() }),
-});
+  prompt: 'You are a PII anonymiser. Identify the personally identifiable information in the text that still needs to be anonymised, such as names, addresses and dates of birth.',
+  entityTypes: ['EMAIL', 'PHONE', 'US_SSN', 'IP_ADDRESS', 'DE_TAX_ID', 'FR_NIR', 'ES_DNI', 'ES_NIE', 'JP_MY_NUMBER', 'POSTCODE'],
+}));
 
-server.addTool({
+server.addTool(defineSanitizer({
   name: 'redact_financial',
   description: 'Redacts IBAN, credit-card numbers, crypto wallets, sort codes, etc.',
-  inputSchema: z.object({ text: z.string() }),
-  outputSchema: z.object({ sanitizedText: z.string() }),
-});
+  // Rule-based only: no model call
+  entityTypes: ['CREDIT_CARD', 'IBAN', 'SORT_CODE', 'CRYPTO_WALLET'],
+}));
 
-server.addTool({
+server.addTool(defineSanitizer({
   name: 'redact_medical',
   description: 'Redacts medical record numbers, patient IDs, diagnoses, medications, etc.',
-  inputSchema: z.object({ text: z.string() }),
-  outputSchema: z.object({ sanitizedText: z.string() }),
-});
+  prompt: 'You are a medical data redactor. Identify all medical information in the text, such as patient IDs, medical record numbers, diagnoses, medications, and other sensitive health information.',
+}));
 
-server.addTool({
+server.addTool(defineSanitizer({
   name: 'general_sanitize',
   description: 'General sanitization for any sensitive information',
-  inputSchema: z.object({ text: z.string() }),
-  outputSchema: z.object({ sanitizedText: z.string() }),
-});
-
-// Expose over HTTP
-const app = express();
-app.use(cors({ origin: '*' })); // dev only
-app.use(express.json());
-
-app.post('/mcp', async (req, res) => {
-  try {
-    const response = await server.handleRequest(req.body);
-    res.json(response);
-  } catch (error: any) {
-    res.status(500).json({
-      error: {
-        code: -32603,
-        message: error.message || 'Internal error'
-      }
-    });
-  }
-});
+  prompt: 'You are a general data sanitizer. Identify any sensitive or confidential information in the text. This includes but is not limited to names, addresses, phone numbers, emails, IDs, and other personally identifiable information.',
+}));
+
+server.addTool(defineTool({
+  name: 'sanitize_file',
+  description: 'Sanitizes a PDF, DOCX, CSV, JSON, email (.eml) or text file and returns a sanitized file in the same format',
+  inputSchema: sanitizeFileInputSchema,
+  outputSchema: sanitizeFileOutputSchema,
+  handler: sanitizeFile,
+}));
+
+server.addTool(defineTool({
+  name: 'sanitize_structured',
+  description: 'Sanitizes JSON, JSON Lines or CSV value by value with field-level rules and detectors, keeping keys, columns, numbers and layout unchanged',
+  inputSchema: sanitizeStructuredInputSchema,
+  outputSchema: sanitizeStructuredOutputSchema,
+  handler: sanitizeStructured,
+}));
 
-createServer(app).listen(PORT, () =>
-  console.log(`[MCP] SanitizeAIServer listening on :${PORT}`)
-);
\ No newline at end of file
+server.addTool(defineTool({
+  name: 'restore_text',
+  description: 'Restores pseudonym tokens (e.g. PERSON_1) to their original values using a vault session id',
+  inputSchema: restoreInputSchema,
+  outputSchema: restoreOutputSchema,
+  handler: restoreText,
+}));
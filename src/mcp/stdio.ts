@@ -0,0 +1,68 @@
+import { createInterface } from 'readline';
+import { McpLikeServer } from './server';
+import { ErrorCode, JSONRPC_VERSION, McpMessage, McpResponse } from './types';
+
+// stdio transport: newline-delimited JSON-RPC on stdin/stdout, logs on stderr
+export function startStdioServer(server: McpLikeServer) {
+  // stdout belongs to the protocol; keep stray logging off it
+  console.log = console.error;
+
+  const send = (message: McpMessage) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  };
+
+  server.onNotification(send);
+
+  // Requests still running when stdin closes get their responses before the process exits
+  const inFlight = new Set<Promise<void>>();
+  const lines = createInterface({ input: process.stdin });
+  lines.on('line', line => {
+    const handling = handleLine(line).catch(error => console.error('[MCP] Failed to handle message:', error.message));
+    inFlight.add(handling);
+    handling.then(() => inFlight.delete(handling));
+  });
+  lines.on('close', () => {
+    const pending: Promise<void>[] = [];
+    inFlight.forEach(handling => pending.push(handling));
+    Promise.all(pending).then(() => process.exit(0));
+  });
+
+  async function handleLine(line: string) {
+    if (!line.trim()) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      send({
+        jsonrpc: JSONRPC_VERSION,
+        id: null,
+        error: { code: ErrorCode.ParseError, message: 'Parse error' },
+      });
+      return;
+    }
+
+    // JSON-RPC 2.0 answers an empty batch with a single Invalid Request error
+    if (Array.isArray(parsed) && parsed.length === 0) {
+      send({
+        jsonrpc: JSONRPC_VERSION,
+        id: null,
+        error: { code: ErrorCode.InvalidRequest, message: 'Empty batch' },
+      });
+      return;
+    }
+
+    const messages: McpMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+    const responses = (await Promise.all(
+      messages.map(message => server.handleMessage(message, { sendNotification: send }))
+    )).filter((response): response is McpResponse => response !== null);
+
+    if (Array.isArray(parsed)) {
+      if (responses.length > 0) process.stdout.write(`${JSON.stringify(responses)}\n`);
+    } else {
+      responses.forEach(send);
+    }
+  }
+
+  console.error('[MCP] SanitizeAIServer listening on stdio');
+}
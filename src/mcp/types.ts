@@ -1,11 +1,106 @@
 import { z } from 'zod';
+import type { SanitizerSpec, ToolHandler } from './plugins';
+import { Dictionary, dictionaryEntryInputSchema, dictionaryListSchema } from '../lib/dictionaries';
+import { Locale, localeSchema } from '../lib/locales';
 
-// MCP-like types for our custom implementation
+// Model Context Protocol types (JSON-RPC 2.0 messages)
+export const JSONRPC_VERSION = '2.0';
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  // Implementation-defined (server error range): per-client rate limit or daily token quota exceeded
+  RateLimited: -32029,
+  // A request, or a step of it, ran past its time limit
+  RequestTimeout: -32001,
+  // The caller cancelled the request (notifications/cancelled, a closed connection or an aborted signal)
+  RequestCancelled: -32800,
+} as const;
+
+// Protocol-level failure, reported as a JSON-RPC error object
+export class McpProtocolError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: any) {
+    super(message);
+    this.name = 'McpProtocolError';
+    Object.setPrototypeOf(this, McpProtocolError.prototype);
+  }
+}
+
+export type RequestId = string | number;
+
+export interface McpRequest {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: RequestId;
+  method: string;
+  params?: any;
+}
+
+export interface McpNotification {
+  jsonrpc: typeof JSONRPC_VERSION;
+  method: string;
+  params?: any;
+}
+
+export interface McpError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface McpResponse {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: RequestId | null;
+  result?: any;
+  error?: McpError;
+}
+
+export type McpMessage = McpRequest | McpNotification | McpResponse;
+
+export interface Implementation {
+  name: string;
+  version: string;
+}
+
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: Implementation;
+  instructions?: string;
+}
+
+// Server-side tool registration (schemas are Zod, advertised as JSON Schema)
 export interface Tool {
   name: string;
   description: string;
   inputSchema: z.ZodSchema;
   outputSchema: z.ZodSchema;
+  // How it runs (see src/mcp/plugins.ts): the shared sanitization pipeline with this spec, or its own handler
+  sanitizer?: SanitizerSpec;
+  handler?: ToolHandler;
+}
+
+// Tool as advertised over the wire by tools/list
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+}
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface CallToolResult {
+  content: Array<TextContent | { type: string; [key: string]: any }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
 }
 
 export interface ToolCall {
@@ -13,23 +108,287 @@ export interface ToolCall {
   arguments: any;
 }
 
+export const findingSchema = z.object({
+  entityType: z.string(),
+  start: z.number(),
+  end: z.number(),
+  replacement: z.string(),
+  source: z.string(),
+  confidence: z.number(),
+});
+
+export type Finding = z.infer<typeof findingSchema>;
+
+// Post-sanitization leak check (see src/lib/verification.ts)
+export const verificationIssueSchema = z.object({
+  kind: z.enum(['residual_value', 'undetected_entity', 'added_content', 'dropped_content', 'model_flagged']),
+  entityType: z.string().optional(),
+  // Offsets into the sanitized text
+  start: z.number(),
+  end: z.number(),
+  detail: z.string(),
+  source: z.string(),
+});
+
+export type VerificationIssue = z.infer<typeof verificationIssueSchema>;
+
+export const verificationReportSchema = z.object({
+  passed: z.boolean(),
+  checks: z.array(z.string()),
+  issues: z.array(verificationIssueSchema),
+  attempts: z.number(),
+});
+
+export type VerificationReport = z.infer<typeof verificationReportSchema>;
+
+export const redactionModeSchema = z.enum(['redact', 'pseudonymize']);
+
+export type RedactionMode = z.infer<typeof redactionModeSchema>;
+
+export const sanitizeInputSchema = z.object({
+  text: z.string().describe('The text to sanitize'),
+  mode: redactionModeSchema
+    .optional()
+    .describe('redact (default) uses typed placeholders; pseudonymize uses reversible vault tokens'),
+  sessionId: z.string().optional().describe('Vault session to reuse in pseudonymize mode'),
+  keepEntityTypes: z
+    .array(z.string())
+    .optional()
+    .describe('Entity types to leave unredacted, e.g. ["PHONE", "IP_ADDRESS"]'),
+  policy: z.string().optional().describe('Named redaction policy (see policies/list); defaults to "default"'),
+  locale: localeSchema
+    .or(z.literal('auto'))
+    .optional()
+    .describe('Language of the text (en, de, fr, es, ja) for locale-specific detectors and prompts; auto (default) detects it'),
+});
+
+export type SanitizeArgs = z.infer<typeof sanitizeInputSchema>;
+
+export const usageSummarySchema = z.object({
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  costUsd: z.number().describe('Estimated from the server\'s price table'),
+  estimated: z.boolean().describe('True when a provider did not report usage and tokens were counted locally'),
+});
+
+export type UsageSummary = z.infer<typeof usageSummarySchema>;
+
+export const sanitizeOutputSchema = z.object({
+  sanitizedText: z.string(),
+  findings: z.array(findingSchema),
+  policy: z.string(),
+  sessionId: z.string().optional(),
+  provider: z.string().optional().describe('Model provider that extracted entities, after any fallback'),
+  verification: verificationReportSchema.optional().describe('Post-sanitization leak check (absent when VERIFICATION_MODE=off)'),
+  usage: usageSummarySchema.optional().describe('Tokens and estimated cost of the model calls made for this result'),
+  locale: localeSchema.optional().describe('Locale the text was sanitized as, given or detected'),
+});
+
+export const fileFormatSchema = z.enum(['txt', 'csv', 'json', 'eml', 'docx', 'pdf']);
+
+export const sanitizeFileInputSchema = sanitizeInputSchema.omit({ text: true }).extend({
+  file: z
+    .object({
+      base64: z.string().optional().describe('File contents, base64-encoded'),
+      path: z.string().optional().describe('Path relative to the server\'s FILE_INPUT_DIR'),
+      filename: z.string().optional().describe('Original file name, used to detect the format'),
+      format: fileFormatSchema.optional().describe('Overrides format detection'),
+    })
+    .refine(file => (file.base64 === undefined) !== (file.path === undefined), {
+      message: 'Exactly one of base64 or path is required',
+    }),
+  profile: z
+    .string()
+    .optional()
+    .describe('Sanitization tool (built-in or plugin) whose prompt and detectors to use, e.g. "redact_financial"; defaults to "general_sanitize"'),
+});
+
+export type SanitizeFileArgs = z.infer<typeof sanitizeFileInputSchema>;
+
+export const sanitizedFileSchema = z.object({
+  filename: z.string(),
+  format: fileFormatSchema,
+  mimeType: z.string(),
+  size: z.number(),
+  base64: z.string(),
+});
+
+export type SanitizedFile = z.infer<typeof sanitizedFileSchema>;
+
+export const sanitizeFileOutputSchema = sanitizeOutputSchema.extend({
+  // sanitizedText and findings refer to the text extracted from the file
+  file: sanitizedFileSchema,
+});
+
+export const structuredFormatSchema = z.enum(['json', 'csv']);
+
+export const structuredFieldRuleSchema = z.object({
+  path: z
+    .string()
+    .describe('JSONPath such as $.user.email, $.items[*].card or $..email, or a bare key/CSV column name matched at any depth'),
+  entityType: z
+    .string()
+    .optional()
+    .describe('Treat the whole value as this entity type; when omitted the detectors run on the value'),
+  action: z
+    .enum(['mask', 'replace', 'hash', 'generalize', 'synthesize', 'keep'])
+    .optional()
+    .describe('Overrides the policy for this field; "keep" leaves the value untouched'),
+});
+
+export type StructuredFieldRule = z.infer<typeof structuredFieldRuleSchema>;
+
+export const sanitizeStructuredInputSchema = sanitizeInputSchema.omit({ text: true }).extend({
+  data: z.string().describe('JSON document, JSON Lines, or CSV whose first row is the header'),
+  format: structuredFormatSchema.optional().describe('Detected from the data when omitted'),
+  fields: z.array(structuredFieldRuleSchema).optional().describe('Field-level rules; the first matching rule wins'),
+  entityTypes: z
+    .array(z.string())
+    .optional()
+    .describe('Detectors to run on string values without an entityType rule; defaults to all detectors'),
+});
+
+export type SanitizeStructuredArgs = z.infer<typeof sanitizeStructuredInputSchema>;
+
+// start/end are offsets into the string value at path
+export const structuredFindingSchema = findingSchema.extend({
+  path: z.string(),
+});
+
+export type StructuredFinding = z.infer<typeof structuredFindingSchema>;
+
+export const sanitizeStructuredOutputSchema = z.object({
+  sanitizedData: z.string(),
+  format: structuredFormatSchema,
+  findings: z.array(structuredFindingSchema),
+  policy: z.string(),
+  sessionId: z.string().optional(),
+  unmatchedFields: z.array(z.string()).describe('Field rule paths that matched no string value'),
+  locale: localeSchema.optional().describe('Locale the values were sanitized as, given or detected'),
+});
+
+export const restoreInputSchema = z.object({
+  text: z.string().describe('Text containing pseudonym tokens such as PERSON_1'),
+  sessionId: z.string().describe('Vault session that produced the tokens'),
+});
+
+export type RestoreArgs = z.infer<typeof restoreInputSchema>;
+
+export const restoreOutputSchema = z.object({
+  restoredText: z.string(),
+  restored: z.number(),
+});
+
 export interface ToolResult {
   sanitizedText: string;
+  findings: Finding[];
+  // Redaction policy that was applied
+  policy: string;
+  // Vault session holding the pseudonym mappings (pseudonymize mode only)
+  sessionId?: string;
+  // Model provider that extracted entities; absent for detector-only tools
+  provider?: string;
+  verification?: VerificationReport;
+  // Model tokens and estimated cost, including verification and retries
+  usage?: UsageSummary;
+  // Locale the text was sanitized as, given or detected
+  locale?: Locale;
+  // Sanitized copy of the input file (sanitize_file only)
+  file?: SanitizedFile;
 }
 
-export interface ToolList {
-  tools: Tool[];
+// Non-standard notifications/tools/partial: a growing draft of the sanitized text, sent while a
+// tools/call with _meta.partial runs. The receiver replaces its draft from `offset` onwards with
+// `text`; earlier parts can change as the model finds more entities.
+export interface PartialOutput {
+  progressToken: string | number;
+  offset: number;
+  text: string;
+  // Characters of the input the draft covers, out of `total`
+  settled: number;
+  total: number;
 }
 
-export interface McpRequest {
-  method: string;
-  params?: any;
+export interface StructuredResult {
+  sanitizedData: string;
+  format: 'json' | 'csv';
+  findings: StructuredFinding[];
+  policy: string;
+  sessionId?: string;
+  // Rule paths that matched nothing, usually a typo in the path
+  unmatchedFields: string[];
+  locale?: Locale;
 }
 
-export interface McpResponse {
-  result?: any;
-  error?: {
-    code: number;
-    message: string;
+export interface RestoreResult {
+  restoredText: string;
+  restored: number;
+}
+
+export interface PolicySummary {
+  name: string;
+  description?: string;
+  defaultAction: string;
+  rules: Record<string, string>;
+}
+
+export interface PolicyList {
+  policies: PolicySummary[];
+}
+
+export const usageGroupBySchema = z.enum(['team', 'client', 'tool', 'provider', 'model', 'day']);
+
+export type UsageGroupBy = z.infer<typeof usageGroupBySchema>;
+
+export const usageRequestSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional(),
+  groupBy: usageGroupBySchema.default('team'),
+});
+
+export interface UsageTotals {
+  // Tool calls, or model calls when grouped by provider or model
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  month: string;
+  groupBy: UsageGroupBy;
+  // Whose usage the caller may see
+  scope: 'own' | 'team' | 'all';
+  totals: UsageTotals;
+  groups: Array<UsageTotals & { key: string }>;
+  // The caller's own limits and what it has used today
+  limits: {
+    client: string;
+    team: string;
+    requestsPerMinute?: number;
+    tokensPerDay?: number;
+    tokensToday: number;
   };
 }
+
+// Non-standard dictionary/add: adds entries to the caller's deny or allow list
+export const dictionaryAddRequestSchema = z.object({
+  list: dictionaryListSchema,
+  entries: z.array(dictionaryEntryInputSchema).min(1, 'At least one entry is required').max(1000),
+});
+
+// Non-standard dictionary/remove: removes entries by id
+export const dictionaryRemoveRequestSchema = z.object({
+  list: dictionaryListSchema,
+  ids: z.array(z.string()).min(1, 'At least one id is required'),
+});
+
+// The caller's organization dictionary (dictionary/get, and the result of add and remove)
+export interface DictionaryReport extends Dictionary {
+  // Whether the caller may change it
+  editable: boolean;
+}
+
+export interface ToolList {
+  tools: ToolDefinition[];
+  nextCursor?: string;
+}